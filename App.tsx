@@ -1,10 +1,12 @@
 
 import React, { useState, useEffect } from 'react';
 import { Game } from './components/Game';
-import { Sun, Moon, Info } from 'lucide-react';
+import { LevelEditor } from './components/LevelEditor';
+import { Sun, Moon, Info, PencilRuler, Gamepad2 } from 'lucide-react';
 
 const App: React.FC = () => {
   const [isDark, setIsDark] = useState(true);
+  const [isEditing, setIsEditing] = useState(false);
 
   useEffect(() => {
     if (isDark) {
@@ -27,6 +29,13 @@ const App: React.FC = () => {
           <h1 className="text-xl font-black tracking-tight uppercase">The Great Heist</h1>
         </div>
         <div className="flex gap-4 items-center">
+          <button
+            onClick={() => setIsEditing(!isEditing)}
+            title={isEditing ? 'Back to the game' : 'Level editor'}
+            className="p-2 rounded-full hover:bg-zinc-800/20 transition-colors border border-zinc-700/30"
+          >
+            {isEditing ? <Gamepad2 size={20} /> : <PencilRuler size={20} />}
+          </button>
           <button
             onClick={() => setIsDark(!isDark)}
             className="p-2 rounded-full hover:bg-zinc-800/20 transition-colors border border-zinc-700/30"
@@ -38,7 +47,7 @@ const App: React.FC = () => {
 
       {/* Main Game Area */}
       <main className="flex-grow flex flex-col items-center justify-center p-4">
-        <Game isDark={isDark} />
+        {isEditing ? <LevelEditor isDark={isDark} /> : <Game isDark={isDark} />}
       </main>
 
       {/* Footer */}
@@ -0,0 +1,83 @@
+import React from 'react';
+import { AbilityId, GameState, RobberIndex } from '../types';
+import { ABILITY_COOLDOWNS, canUseAbility, GADGETS } from '../game/abilities';
+import { robbersOf } from '../game/coop';
+import { keyLabel, KeyBindingMap, PostureAction } from '../game/input';
+
+interface Props {
+  state: GameState;
+  bindings: KeyBindingMap;
+  onAbility: (ability: AbilityId) => void;
+  onPosture: (action: PostureAction, held: boolean) => void;
+  /** Whose posture and abilities the buttons are for; online, the robber this player controls. */
+  robber: RobberIndex;
+}
+
+const ABILITIES: { id: AbilityId; label: string; action: 'THROW' | 'SMOKE' | 'EMP' }[] = [
+  { id: 'distraction', label: 'Throw', action: 'THROW' },
+  { id: 'smoke', label: GADGETS.smoke.label, action: 'SMOKE' },
+  { id: 'emp', label: GADGETS.emp.label, action: 'EMP' },
+];
+
+const HoldButton: React.FC<{ action: PostureAction; active: boolean; onPosture: Props['onPosture']; children: React.ReactNode }> = ({ action, active, onPosture, children }) => (
+  <button
+    onPointerDown={(e) => { e.preventDefault(); e.currentTarget.setPointerCapture(e.pointerId); onPosture(action, true); }}
+    onPointerUp={() => onPosture(action, false)}
+    onPointerCancel={() => onPosture(action, false)}
+    className={`px-3 py-2 rounded-lg text-[10px] font-bold uppercase touch-none transition-colors ${active ? 'bg-yellow-500 text-black' : 'bg-zinc-800 hover:bg-zinc-700'}`}
+  >
+    {children}
+  </button>
+);
+
+const Meter: React.FC<{ label: string; value: number; color: string }> = ({ label, value, color }) => (
+  <div className="flex flex-col gap-1 w-28">
+    <p className="text-[10px] uppercase font-bold opacity-40">{label}</p>
+    <div className="h-2 rounded-full bg-zinc-800 overflow-hidden">
+      <div className={`h-full ${color}`} style={{ width: `${Math.round(value * 100)}%` }} />
+    </div>
+  </div>
+);
+
+const staminaColor = (stamina: number) => (stamina < 0.25 ? 'bg-red-500' : 'bg-green-500');
+
+/** Stamina, noise, posture and ability cooldowns; doubles as touch controls. */
+export const AbilityBar: React.FC<Props> = ({ state, bindings, onAbility, onPosture, robber }) => {
+  const posture = robbersOf(state)[robber]?.posture ?? 'walk';
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2 w-full select-none">
+      <Meter label={state.partner ? 'P1 Stamina' : 'Stamina'} value={state.stamina} color={staminaColor(state.stamina)} />
+      {state.partner && <Meter label="P2 Stamina" value={state.partner.stamina} color={staminaColor(state.partner.stamina)} />}
+      <Meter
+        label="Noise"
+        value={state.noiseLevel}
+        color={state.noiseLevel > 0.6 ? 'bg-red-500' : state.noiseLevel > 0.3 ? 'bg-orange-500' : 'bg-sky-500'}
+      />
+      <HoldButton action="SPRINT" active={posture === 'sprint'} onPosture={onPosture}>
+        Sprint <span className="opacity-50">{keyLabel(bindings.SPRINT[0] ?? '')}</span>
+      </HoldButton>
+      <HoldButton action="CROUCH" active={posture === 'crouch'} onPosture={onPosture}>
+        Crouch <span className="opacity-50">{keyLabel(bindings.CROUCH[0] ?? '')}</span>
+      </HoldButton>
+      {ABILITIES.map(({ id, label, action }) => {
+        const cooldown = state.cooldowns[id] / ABILITY_COOLDOWNS[id];
+        return (
+          <button
+            key={id}
+            onClick={() => onAbility(id)}
+            disabled={!canUseAbility(state, id, robber)}
+            className="relative overflow-hidden px-3 py-2 rounded-lg bg-zinc-800 hover:bg-zinc-700 disabled:opacity-40 text-[10px] font-bold uppercase transition-colors"
+          >
+            {/* Drains left to right as the cooldown runs out */}
+            <span className="absolute inset-y-0 left-0 bg-yellow-500/30" style={{ width: `${Math.round(cooldown * 100)}%` }} />
+            <span className="relative">
+              {label}
+              {id !== 'distraction' && ` ×${state.gadgets[id]}`}
+              <span className="opacity-50"> {keyLabel(bindings[action][0] ?? '')}</span>
+            </span>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
@@ -1,412 +1,444 @@
-import { DollarSign, Lock, Move, Pause, Play, RotateCcw, Unlock, ShieldAlert, Timer as TimerIcon, Trophy, Volume2, VolumeX } from 'lucide-react';
-import React, { useCallback, useEffect, useRef, useState } from 'react';
-import { Direction, GameState, Money, Point, Wall, Guard } from '../types';
+import { CalendarDays, DollarSign, Download, Film, Hash, Lock, LogOut, Move, Pause, Play, RotateCcw, Unlock, ShieldAlert, Timer as TimerIcon, Trophy, Volume2, VolumeX } from 'lucide-react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { AbilityId, Direction, GadgetId, GameConfig, GameEvent, GameOverReason, GameState, LevelDefinition, RobberIndex, RobberInput, StepInput, UpgradeId } from '../types';
+import { CANVAS_HEIGHT, CANVAS_WIDTH, TICK_RATE } from '../game/constants';
+import { createInitialState } from '../game/generation';
+import { createInputManager, KeyBindingMap, keyLabel, loadBindings, PARTNER_BINDINGS, saveBindings } from '../game/input';
+import { describeLock } from '../game/lock';
+import { dailySeed, normalizeSeed, randomSeed } from '../game/rng';
+import { clearSave, loadSave, saveRun } from '../game/save';
+import { entryFromRun, loadLeaderboard, personalBests, recordRun } from '../game/leaderboard';
+import { createAudioEngine, loadVolume, saveVolume, VolumeSettings } from '../game/audio';
+import { createFloorView } from '../game/camera';
+import { createLobby, startLobbyClock } from '../game/lobby';
+import { startFixedLoop } from '../game/loop';
+import { configLabel, DEFAULT_CONFIG, loadConfig, saveConfig, settingsFor } from '../game/modes';
+import { createLoopback, createNetClient, NetClient, socketConnection } from '../game/net';
+import { advance } from '../game/simulation';
+import {
+  applyCommand, createPlayback, createRecorder, downloadReplay, loadGhost, parseReplay, Playback, quantizeMove, Recorder, Replay, ReplayCommandBody, saveGhost,
+} from '../game/replay';
+import { DEFAULT_CAMPAIGN, PLAYTEST_CAMPAIGN, registerCampaign } from '../levels';
+import { createLighting } from './lighting';
+import { createMotion } from './motion';
+import { drawMinimap, drawScene, fitCanvas, ghostPosition, interpolateState } from './renderer';
+import { AbilityBar } from './AbilityBar';
+import { Intermission } from './Intermission';
+import { ReplayPlayer } from './ReplayPlayer';
+import { KeyBindings } from './KeyBindings';
+import { ModeSelect } from './ModeSelect';
+import { NO_ROOM, OnlineLobby, RoomInfo } from './OnlineLobby';
+import { RunResult, RunSummary } from './RunSummary';
 import { VirtualControls } from './VirtualControls';
+import { VolumeControls } from './VolumeControls';
 
-const CANVAS_WIDTH = 600;
-const CANVAS_HEIGHT = 400;
-const PLAYER_SIZE = 20;
-const GUARD_SIZE = 24;
-const SPEED = 4;
-const INITIAL_TIME_PER_FLOOR = 60; // seconds
-
-// --- Procedural Audio Engine ---
-let audioCtx: AudioContext | null = null;
-const getAudioCtx = () => {
-  if (!audioCtx) {
-    audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
-  }
-  return audioCtx;
-};
+const MOVE_ACTIONS = [Direction.UP, Direction.LEFT, Direction.DOWN, Direction.RIGHT] as const;
 
-const playSound = (type: OscillatorType, freq: number, duration: number, volume: number = 0.1) => {
-  try {
-    const ctx = getAudioCtx();
-    if (ctx.state === 'suspended') ctx.resume();
-    
-    const oscillator = ctx.createOscillator();
-    const gainNode = ctx.createGain();
-
-    oscillator.type = type;
-    oscillator.frequency.setValueAtTime(freq, ctx.currentTime);
-    oscillator.connect(gainNode);
-    gainNode.connect(ctx.destination);
-
-    gainNode.gain.setValueAtTime(volume, ctx.currentTime);
-    gainNode.gain.exponentialRampToValueAtTime(0.0001, ctx.currentTime + duration);
-
-    oscillator.start();
-    oscillator.stop(ctx.currentTime + duration);
-  } catch (e) {
-    // Silence errors to prevent console spam if audio is blocked
-  }
+const GAME_OVER_TEXT: Record<GameOverReason, { title: string; message: (floor: number) => string }> = {
+  caught: { title: 'Busted!', message: floor => `The guards caught you on floor ${floor} with no lives left.` },
+  detected: { title: 'Spotted!', message: floor => `You were spotted on floor ${floor} with no lives left. Ghosts don't get seen.` },
+  timeUp: { title: "Time's Up!", message: floor => `The clock ran out on floor ${floor}. The alarm is on its way.` },
 };
 
-const sounds = {
-  collect: () => playSound('triangle', 880, 0.1, 0.15),
-  passwordSuccess: () => {
-    playSound('sine', 440, 0.2, 0.2);
-    setTimeout(() => playSound('sine', 554.37, 0.2, 0.2), 100);
-    setTimeout(() => playSound('sine', 659.25, 0.4, 0.2), 200);
-  },
-  passwordFail: () => {
-    playSound('sawtooth', 220, 0.2, 0.1);
-    setTimeout(() => playSound('sawtooth', 110, 0.4, 0.1), 100);
-  },
-  caught: () => {
-    playSound('sawtooth', 100, 0.5, 0.3);
-    playSound('square', 150, 0.5, 0.1);
-  },
-  transition: () => {
-    playSound('sine', 330, 0.5, 0.1);
-    setTimeout(() => playSound('sine', 440, 0.5, 0.1), 150);
-  }
-};
+// Whether the ability bar would show anything different; the stamina meter moves in 5% steps.
+const abilityHudChanged = (a: GameState, b: GameState) =>
+  a.posture !== b.posture ||
+  Math.round(a.stamina * 20) !== Math.round(b.stamina * 20) ||
+  Math.round((a.partner?.stamina ?? 0) * 20) !== Math.round((b.partner?.stamina ?? 0) * 20) ||
+  Math.round(a.noiseLevel * 20) !== Math.round(b.noiseLevel * 20) ||
+  (Object.keys(a.cooldowns) as AbilityId[]).some(k => Math.ceil(a.cooldowns[k] * 4) !== Math.ceil(b.cooldowns[k] * 4));
+
+// Online, the partner can close the terminal or the shop without anything happening on this end.
+const overlaysChanged = (a: GameState, b: GameState) =>
+  a.showTerminal !== b.showTerminal || a.showShop !== b.showShop || a.isGameOver !== b.isGameOver;
+
+interface GameProps {
+  isDark: boolean;
+  /** Runs this level straight away as a throwaway run (no saves, scores or ghosts). */
+  playtest?: LevelDefinition;
+}
+
+export const Game: React.FC<GameProps> = ({ isDark, playtest }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [hasStarted, setHasStarted] = useState(false);
+  const [volume, setVolume] = useState<VolumeSettings>(loadVolume);
+  const audio = useMemo(() => createAudioEngine(loadVolume()), []);
+  const [bindings, setBindings] = useState<KeyBindingMap>(loadBindings);
+  const [showBindings, setShowBindings] = useState(false);
+  const input = useMemo(() => createInputManager(loadBindings()), []);
+  const [inputPassword, setInputPassword] = useState('');
+  const [runResult, setRunResult] = useState<RunResult | null>(null);
+  const [lastReplay, setLastReplay] = useState<Replay | null>(null);
+  const [watching, setWatching] = useState<Replay | null>(null);
+  const [replayError, setReplayError] = useState('');
+  const [savedRun, setSavedRun] = useState<GameState | null>(loadSave);
+  const [config, setConfig] = useState<GameConfig>(loadConfig);
+  const [seedInput, setSeedInput] = useState(() => new URLSearchParams(window.location.search).get('seed') ?? '');
+
+  // Null until the first run starts: the start screen has no floor to show.
+  const [gameState, setGameState] = useState<GameState | null>(null);
+  // Mirrors the committed state so the loop can step it outside of a React updater.
+  const stateRef = useRef(gameState);
+  // The state one tick earlier, for interpolating between ticks when drawing.
+  const prevStateRef = useRef(gameState);
+
+  const updateState = useCallback((update: (prev: GameState | null) => GameState) => {
+    stateRef.current = update(stateRef.current);
+    prevStateRef.current = stateRef.current;
+    setGameState(stateRef.current);
+  }, []);
 
-const generateWalls = (floor: number): Wall[] => {
-  const walls: Wall[] = [
-    { x: 0, y: 0, w: CANVAS_WIDTH, h: 10 },
-    { x: 0, y: CANVAS_HEIGHT - 10, w: CANVAS_WIDTH, h: 10 },
-    { x: 0, y: 0, w: 10, h: CANVAS_HEIGHT },
-    { x: CANVAS_WIDTH - 10, y: 0, w: 10, h: CANVAS_HEIGHT },
-  ];
-
-  const seed = floor * 12345;
-  const numObstacles = Math.min(3 + floor, 8);
-  for (let i = 0; i < numObstacles; i++) {
-    const x = 50 + ((seed + i * 150) % (CANVAS_WIDTH - 150));
-    const y = 50 + ((seed + i * 100) % (CANVAS_HEIGHT - 150));
-    const w = 40 + ((seed * (i + 1)) % 100);
-    const h = 40 + ((seed * (i + 2)) % 100);
-    walls.push({ x, y, w, h });
-  }
+  const recorderRef = useRef<Recorder | null>(null);
+  const ghostRef = useRef<Playback | null>(null);
+
+  // Online co-op: a room, on a server or in this page when offline, runs the
+  // floor and netRef is this player's end of it. The offline room's second
+  // player is driven from the partner keys through guestRef.
+  const netRef = useRef<NetClient | null>(null);
+  const guestRef = useRef<NetClient | null>(null);
+  const closeRoomRef = useRef<(() => void) | null>(null);
+  const [room, setRoom] = useState<RoomInfo>(NO_ROOM);
+
+  const leaveRoom = useCallback((error = '') => {
+    closeRoomRef.current?.();
+    closeRoomRef.current = null;
+    netRef.current = null;
+    guestRef.current = null;
+    setRoom({ ...NO_ROOM, error });
+    setHasStarted(false);
+    input.setCoop(false);
+  }, [input]);
+
+  useEffect(() => () => closeRoomRef.current?.(), []);
+
+  const startRun = useCallback((seed: string) => {
+    leaveRoom();
+    if (!playtest) {
+      clearSave();
+      setSavedRun(null);
+    }
+    setRunResult(null);
+    setLastReplay(null);
+    // Playtests always use the default rules so the level is what gets tested.
+    const initial = playtest
+      ? createInitialState(seed, PLAYTEST_CAMPAIGN, DEFAULT_CONFIG)
+      : createInitialState(seed, DEFAULT_CAMPAIGN, config);
+    recorderRef.current = createRecorder(initial);
+    const ghost = loadGhost(seed, initial.campaign, initial.config);
+    ghostRef.current = ghost ? createPlayback(ghost) : null;
+    updateState(() => initial);
+    setHasStarted(true);
+    input.setCoop(!!initial.partner);
+    setInputPassword('');
+  }, [updateState, input, playtest, config, leaveRoom]);
 
-  return walls;
-};
+  useEffect(() => {
+    if (!playtest) return;
+    registerCampaign(PLAYTEST_CAMPAIGN, [playtest]);
+    startRun(randomSeed());
+  }, [playtest, startRun]);
 
-const generateGuards = (floor: number, walls: Wall[]): Guard[] => {
-  const guards: Guard[] = [];
-  const numGuards = Math.min(1 + Math.floor(floor / 2), 5);
-  
-  for (let i = 0; i < numGuards; i++) {
-    const startX = 200 + Math.random() * (CANVAS_WIDTH - 300);
-    const startY = 100 + Math.random() * (CANVAS_HEIGHT - 200);
-    const pathWidth = 100 + Math.random() * 100;
-    
-    guards.push({
-      id: `guard-${i}`,
-      pos: { x: startX, y: startY },
-      path: [
-        { x: startX, y: startY },
-        { x: startX + pathWidth, y: startY },
-      ],
-      currentPathIndex: 0,
-      speed: 1.5 + (floor * 0.2)
+  const resetGame = useCallback(() => {
+    if (netRef.current) return netRef.current.restart();
+    startRun(normalizeSeed(seedInput) || randomSeed());
+  }, [startRun, seedInput]);
+
+  const continueRun = useCallback(() => {
+    if (!savedRun) return;
+    leaveRoom();
+    setRunResult(null);
+    setLastReplay(null);
+    recorderRef.current = createRecorder(savedRun, true);
+    ghostRef.current = null;
+    updateState(() => savedRun);
+    setHasStarted(true);
+    input.setCoop(!!savedRun.partner);
+    setInputPassword('');
+  }, [savedRun, updateState, input, leaveRoom]);
+
+  // Every run the room starts is played here; if the room closes, it's back to the start screen.
+  const openRoom = useCallback((client: NetClient, offline: boolean, close: () => void) => {
+    closeRoomRef.current?.();
+    netRef.current = client;
+    guestRef.current = null;
+    closeRoomRef.current = close;
+    client.onChange(() => {
+      if (netRef.current !== client) return;
+      const status = client.getStatus();
+      if (status === 'closed') return leaveRoom(client.getError());
+      setRoom({ status, code: client.getCode(), error: client.getError(), offline, robber: client.getRobber() });
+      if (status !== 'playing') return;
+      setRunResult(null);
+      setLastReplay(null);
+      recorderRef.current = null;
+      ghostRef.current = null;
+      updateState(() => client.getState()!);
+      setHasStarted(true);
+      input.setCoop(offline);
+      setInputPassword('');
     });
-  }
-  return guards;
-};
-
-const generateMoney = (floor: number, walls: Wall[]): Money[] => {
-  const money: Money[] = [];
-  const numBills = 5 + floor * 2;
-  
-  for (let i = 0; i < numBills; i++) {
-    let valid = false;
-    let pos = { x: 0, y: 0 };
-    while (!valid) {
-      pos = {
-        x: 40 + Math.random() * (CANVAS_WIDTH - 80),
-        y: 40 + Math.random() * (CANVAS_HEIGHT - 80)
-      };
-      valid = !walls.some(w => 
-        pos.x > w.x - 20 && pos.x < w.x + w.w + 20 &&
-        pos.y > w.y - 20 && pos.y < w.y + w.h + 20
-      );
+  }, [leaveRoom, updateState, input]);
+
+  const connectTo = (url: string) => {
+    try {
+      return createNetClient(socketConnection(new WebSocket(url)));
+    } catch (e) {
+      setRoom({ ...NO_ROOM, error: 'Not a valid server address' });
+      return null;
     }
-    money.push({
-      id: `money-${i}`,
-      pos,
-      value: 100 * floor,
-      collected: false
-    });
-  }
-  return money;
-};
+  };
 
-const generatePassword = () => {
-  return Math.floor(1000 + Math.random() * 9000).toString();
-};
+  const hostRoom = (url: string) => {
+    const client = connectTo(url);
+    if (!client) return;
+    openRoom(client, false, client.leave);
+    client.host(config);
+  };
 
-export const Game: React.FC<{ isDark: boolean }> = ({ isDark }) => {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [hasStarted, setHasStarted] = useState(false);
-  const [isMuted, setIsMuted] = useState(false);
-  const [moveDir, setMoveDir] = useState<Direction>(Direction.NONE);
-  const [inputPassword, setInputPassword] = useState('');
+  const joinRoom = (url: string, code: string) => {
+    const client = connectTo(url);
+    if (!client) return;
+    openRoom(client, false, client.leave);
+    client.join(code);
+  };
 
-  const [gameState, setGameState] = useState<GameState>(() => {
-    const walls = generateWalls(1);
-    return {
-      playerPos: { x: 30, y: 30 },
-      currentFloor: 1,
-      score: 0,
-      money: generateMoney(1, walls),
-      walls: walls,
-      guards: generateGuards(1, walls),
-      password: generatePassword(),
-      // Fix: removed 'boolean' type usage as value
-      foundPassword: false,
-      doorPos: { x: CANVAS_WIDTH - 40, y: CANVAS_HEIGHT - 40 },
-      isPaused: false,
-      isGameOver: false,
-      // Fix: completed missing 'showTerminal' property
-      showTerminal: false,
-      lastPasswordFound: '',
-      timeLeft: INITIAL_TIME_PER_FLOOR,
+  // The same room a server would run, with both players' ends in this page.
+  const playOffline = () => {
+    const lobby = createLobby();
+    const stopClock = startLobbyClock(lobby);
+    const seat = () => {
+      const [here, there] = createLoopback();
+      lobby.connect(there);
+      return createNetClient(here);
     };
-  });
-
-  const resetGame = useCallback(() => {
-    const walls = generateWalls(1);
-    setGameState({
-      playerPos: { x: 30, y: 30 },
-      currentFloor: 1,
-      score: 0,
-      money: generateMoney(1, walls),
-      walls: walls,
-      guards: generateGuards(1, walls),
-      password: generatePassword(),
-      foundPassword: false,
-      doorPos: { x: CANVAS_WIDTH - 40, y: CANVAS_HEIGHT - 40 },
-      isPaused: false,
-      isGameOver: false,
-      showTerminal: false,
-      lastPasswordFound: '',
-      timeLeft: INITIAL_TIME_PER_FLOOR,
+    const host = seat();
+    const guest = seat();
+    openRoom(host, true, () => {
+      host.leave();
+      guest.leave();
+      stopClock();
     });
-    setHasStarted(true);
-    setMoveDir(Direction.NONE);
-    setInputPassword('');
-  }, []);
+    guestRef.current = guest;
+    host.onChange(() => host.getStatus() === 'waiting' && guest.join(host.getCode()));
+    host.host(config);
+  };
 
+  // The simulation has already moved on to the next floor by the time this runs.
   const nextFloor = useCallback(() => {
-    setGameState(prev => {
-      const nextF = prev.currentFloor + 1;
-      const walls = generateWalls(nextF);
-      if (!isMuted) sounds.transition();
-      return {
-        ...prev,
-        currentFloor: nextF,
-        playerPos: { x: 30, y: 30 },
-        money: generateMoney(nextF, walls),
-        walls: walls,
-        guards: generateGuards(nextF, walls),
-        password: generatePassword(),
-        foundPassword: false,
-        doorPos: { x: CANVAS_WIDTH - 40, y: CANVAS_HEIGHT - 40 },
-        timeLeft: INITIAL_TIME_PER_FLOOR,
-      };
+    audio.play('transition');
+    if (!playtest && !netRef.current) saveRun(stateRef.current!);
+  }, [audio, playtest]);
+
+  // An online room never waits for one player.
+  const setPaused = useCallback((paused: boolean) => {
+    if (netRef.current) return;
+    updateState(prev => ({ ...prev!, isPaused: paused }));
+    if (paused && !playtest) saveRun(stateRef.current!);
+  }, [updateState, playtest]);
+
+  const finishRun = useCallback(() => {
+    if (playtest || netRef.current) {
+      recorderRef.current = null;
+      return;
+    }
+    clearSave();
+    const state = stateRef.current!;
+    const bestsBefore = personalBests(loadLeaderboard(state.config));
+    setRunResult({ ...recordRun(entryFromRun(state), state.config), bestsBefore });
+    if (recorderRef.current) {
+      const replay = recorderRef.current.finish(state);
+      saveGhost(replay);
+      setLastReplay(replay);
+      recorderRef.current = null;
+    }
+  }, [playtest]);
+
+  const handleEvents = useCallback((events: GameEvent[]) => {
+    for (const event of events) {
+      switch (event.type) {
+        case 'moneyCollected': audio.play('collect'); break;
+        case 'busted': audio.play('caught'); break;
+        case 'respawned': audio.play('transition'); break;
+        case 'robberDowned': audio.play('caught'); break;
+        case 'robberRevived': audio.play('passwordSuccess'); break;
+        case 'caught': finishRun(); break;
+        case 'detected': finishRun(); break;
+        case 'timeUp': finishRun(); break;
+        case 'guardSuspicious': audio.play('suspicious'); break;
+        case 'guardAlerted': audio.play('alert'); break;
+        case 'fragmentCollected': audio.play('fragment'); break;
+        case 'codeAccepted': audio.play('passwordSuccess'); break;
+        case 'codeRejected': audio.play('passwordFail'); break;
+        case 'floorCleared': nextFloor(); break;
+        case 'alarmRaised': audio.play('alert'); break;
+        case 'panelCut': audio.play('fragment'); break;
+        case 'vaultOpened': audio.play('passwordSuccess'); break;
+        case 'abilityUsed': audio.play(event.ability === 'distraction' ? 'throw' : event.ability); break;
+        case 'gadgetBought':
+        case 'upgradeBought': audio.play('purchase'); break;
+      }
+    }
+  }, [audio, nextFloor, finishRun]);
+
+  // Abilities, shop purchases and terminal input are commands, so replays can
+  // re-apply them. Online they go to the room, whose events come back with the
+  // next snapshot.
+  const issueCommand = useCallback((command: ReplayCommandBody) => {
+    const net = netRef.current;
+    if (net) {
+      net.command(command);
+      updateState(() => net.getState()!);
+      return;
+    }
+    const current = stateRef.current;
+    if (!current) return;
+    recorderRef.current?.command(command);
+    const { state, events } = applyCommand(current, command);
+    if (state === current) return;
+    updateState(() => state);
+    handleEvents(events);
+  }, [updateState, handleEvents]);
+
+  const triggerAbility = useCallback((ability: AbilityId, robber: RobberIndex = 0) => {
+    if (robber === 1 && guestRef.current) return guestRef.current.command({ type: 'useAbility', ability });
+    issueCommand({ type: 'useAbility', ability, robber });
+  }, [issueCommand]);
+
+  const purchaseGadget = (gadget: GadgetId) => issueCommand({ type: 'buyGadget', gadget });
+
+  const purchaseUpgrade = (upgrade: UpgradeId) => issueCommand({ type: 'buyUpgrade', upgrade });
+
+  const leaveShop = () => {
+    issueCommand({ type: 'closeShop' });
+    input.clear();
+  };
+
+  useEffect(() => {
+    input.onPause(() => {
+      audio.unlock();
+      const s = stateRef.current;
+      if (!s || s.showTerminal || s.showShop || s.isGameOver) return;
+      setPaused(!s.isPaused);
     });
-  }, [isMuted]);
+    input.onAbility(triggerAbility);
+    return input.attach();
+  }, [input, setPaused, audio, triggerAbility]);
+
+  const changeConfig = useCallback((next: GameConfig) => {
+    setConfig(next);
+    saveConfig(next);
+  }, []);
 
   useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      if (gameState.showTerminal) return;
-      switch (e.key.toLowerCase()) {
-        case 'w': setMoveDir(Direction.UP); break;
-        case 's': setMoveDir(Direction.DOWN); break;
-        case 'a': setMoveDir(Direction.LEFT); break;
-        case 'd': setMoveDir(Direction.RIGHT); break;
-        case 'p': setGameState(prev => ({ ...prev, isPaused: !prev.isPaused })); break;
-      }
-    };
-    const handleKeyUp = (e: KeyboardEvent) => {
-      const key = e.key.toLowerCase();
-      if (['w', 's', 'a', 'd'].includes(key)) setMoveDir(Direction.NONE);
-    };
-    window.addEventListener('keydown', handleKeyDown);
-    window.addEventListener('keyup', handleKeyUp);
+    const detach = audio.attach();
     return () => {
-      window.removeEventListener('keydown', handleKeyDown);
-      window.removeEventListener('keyup', handleKeyUp);
+      detach();
+      audio.dispose();
     };
-  }, [gameState.showTerminal]);
-
-  // Game Loop
+  }, [audio]);
+
+  const changeVolume = useCallback((next: VolumeSettings) => {
+    setVolume(next);
+    audio.setVolume(next);
+    saveVolume(next);
+  }, [audio]);
+
+  const changeBindings = useCallback((next: KeyBindingMap) => {
+    setBindings(next);
+    input.setBindings(next);
+    saveBindings(next);
+  }, [input]);
+
+  const isDarkRef = useRef(isDark);
+  isDarkRef.current = isDark;
+  const handleEventsRef = useRef(handleEvents);
+  handleEventsRef.current = handleEvents;
+
+  // Game Loop: the simulation and the canvas run outside React. React state is
+  // only committed when something the HUD or overlays show has changed.
   useEffect(() => {
-    if (!hasStarted || gameState.isPaused || gameState.isGameOver || gameState.showTerminal) return;
-
-    const interval = setInterval(() => {
-      setGameState(prev => {
-        let newX = prev.playerPos.x;
-        let newY = prev.playerPos.y;
-
-        if (moveDir === Direction.UP) newY -= SPEED;
-        if (moveDir === Direction.DOWN) newY += SPEED;
-        if (moveDir === Direction.LEFT) newX -= SPEED;
-        if (moveDir === Direction.RIGHT) newX += SPEED;
-
-        // Wall collision
-        const collide = prev.walls.some(w => 
-          newX + PLAYER_SIZE > w.x && newX < w.x + w.w &&
-          newY + PLAYER_SIZE > w.y && newY < w.y + w.h
-        );
-
-        if (!collide) {
-          newX = Math.max(10, Math.min(CANVAS_WIDTH - PLAYER_SIZE - 10, newX));
-          newY = Math.max(10, Math.min(CANVAS_HEIGHT - PLAYER_SIZE - 10, newY));
+    if (!hasStarted || watching) return;
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    const view = createFloorView();
+    const lighting = createLighting();
+    const motion = createMotion();
+
+    const stop = startFixedLoop({
+      dt: 1 / TICK_RATE,
+      // Online the room decides when the floor holds still, so input keeps going to it.
+      isRunning: () => {
+        const s = stateRef.current!;
+        return !!netRef.current || (!s.isPaused && !s.isGameOver && !s.showTerminal && !s.showShop);
+      },
+      update: (dt) => {
+        const before = stateRef.current!;
+        const own: RobberInput = { move: quantizeMove(input.getMoveVector()), posture: input.getPosture() };
+        const partner: RobberInput = { move: quantizeMove(input.getMoveVector(1)), posture: input.getPosture(1) };
+        const net = netRef.current;
+        let state: GameState;
+        let events: GameEvent[];
+        if (net) {
+          net.tick(own);
+          guestRef.current?.tick(partner);
+          state = net.getState()!;
+          events = net.takeEvents();
+          prevStateRef.current = net.getPrevState()!;
         } else {
-          newX = prev.playerPos.x;
-          newY = prev.playerPos.y;
+          const stepInput: StepInput = before.partner ? { ...own, partner } : own;
+          recorderRef.current?.tick(stepInput);
+          ({ state, events } = advance(before, stepInput, dt));
+          const ghost = ghostRef.current;
+          if (ghost && !ghost.isDone()) ghost.step();
+          prevStateRef.current = before;
         }
-
-        // Money collection
-        let newScore = prev.score;
-        const newMoney = prev.money.map(m => {
-          if (!m.collected && 
-              Math.abs(newX - m.pos.x) < 20 && 
-              Math.abs(newY - m.pos.y) < 20) {
-            if (!isMuted) sounds.collect();
-            newScore += m.value;
-            return { ...m, collected: true };
-          }
-          return m;
-        });
-
-        // Guard movement & collision
-        const newGuards = prev.guards.map(g => {
-          const target = g.path[g.currentPathIndex];
-          const dx = target.x - g.pos.x;
-          const dy = target.y - g.pos.y;
-          const dist = Math.sqrt(dx * dx + dy * dy);
-          
-          let newGPos = { ...g.pos };
-          let newIdx = g.currentPathIndex;
-          
-          if (dist < 5) {
-            newIdx = (g.currentPathIndex + 1) % g.path.length;
-          } else {
-            newGPos.x += (dx / dist) * g.speed;
-            newGPos.y += (dy / dist) * g.speed;
-          }
-
-          return { ...g, pos: newGPos, currentPathIndex: newIdx };
-        });
-
-        const caught = newGuards.some(g => 
-          Math.abs(newX - g.pos.x) < 20 && 
-          Math.abs(newY - g.pos.y) < 20
-        );
-
-        if (caught) {
-          if (!isMuted) sounds.caught();
-          return { ...prev, isGameOver: true };
-        }
-
-        // Door interaction
-        const distToDoor = Math.sqrt(
-          Math.pow(newX - prev.doorPos.x, 2) + Math.pow(newY - prev.doorPos.y, 2)
-        );
-        
-        if (distToDoor < 30 && !prev.foundPassword) {
-            return { ...prev, showTerminal: true, playerPos: { x: newX, y: newY } };
+        audio.footsteps(state);
+        stateRef.current = state;
+        if (
+          events.length > 0 || Math.ceil(before.timeLeft) !== Math.ceil(state.timeLeft) ||
+          abilityHudChanged(before, state) || overlaysChanged(before, state)
+        ) {
+          setGameState(state);
         }
-
-        if (prev.foundPassword && distToDoor < 20) {
-           nextFloor();
-           return prev; 
-        }
-
-        return {
-          ...prev,
-          playerPos: { x: newX, y: newY },
-          score: newScore,
-          money: newMoney,
-          guards: newGuards,
-          timeLeft: Math.max(0, prev.timeLeft - 1/60)
-        };
-      });
-    }, 1000 / 60);
-
-    return () => clearInterval(interval);
-  }, [hasStarted, gameState.isPaused, gameState.isGameOver, gameState.showTerminal, moveDir, isMuted, nextFloor]);
-
-  // Timer logic
-  useEffect(() => {
-    if (!hasStarted || gameState.isPaused || gameState.isGameOver || gameState.showTerminal) return;
-    const t = setInterval(() => {
-      setGameState(prev => {
-        if (prev.timeLeft <= 0) return { ...prev, isGameOver: true };
-        return prev;
-      });
-    }, 1000);
-    return () => clearInterval(t);
-  }, [hasStarted, gameState.isPaused, gameState.isGameOver, gameState.showTerminal]);
-
-  // Rendering
-  useEffect(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    ctx.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
-
-    // Draw Walls
-    ctx.fillStyle = isDark ? '#3f3f46' : '#d4d4d8';
-    gameState.walls.forEach(w => ctx.fillRect(w.x, w.y, w.w, w.h));
-
-    // Draw Money
-    ctx.fillStyle = '#22c55e';
-    gameState.money.forEach(m => {
-      if (!m.collected) {
-        ctx.beginPath();
-        ctx.arc(m.pos.x, m.pos.y, 6, 0, Math.PI * 2);
-        ctx.fill();
-        ctx.fillStyle = '#fff';
-        ctx.font = '10px bold sans-serif';
-        ctx.fillText('$', m.pos.x - 3, m.pos.y + 4);
-      }
-    });
-
-    // Draw Terminal/Door
-    ctx.fillStyle = gameState.foundPassword ? '#22c55e' : '#eab308';
-    ctx.fillRect(gameState.doorPos.x, gameState.doorPos.y, 30, 30);
-    ctx.fillStyle = '#fff';
-    ctx.font = '10px bold sans-serif';
-    ctx.fillText(gameState.foundPassword ? 'EXIT' : 'LOCK', gameState.doorPos.x, gameState.doorPos.y - 5);
-
-    // Draw Guards
-    ctx.fillStyle = '#ef4444';
-    gameState.guards.forEach(g => {
-      ctx.fillRect(g.pos.x, g.pos.y, GUARD_SIZE, GUARD_SIZE);
-      ctx.strokeStyle = 'rgba(239, 68, 68, 0.2)';
-      ctx.beginPath();
-      ctx.arc(g.pos.x + 12, g.pos.y + 12, 50, 0, Math.PI * 2);
-      ctx.stroke();
+        handleEventsRef.current(events);
+      },
+      render: (alpha) => {
+        input.poll();
+        const state = interpolateState(prevStateRef.current!, stateRef.current!, alpha);
+        audio.update(state.isPaused || state.isGameOver ? null : state);
+        const now = performance.now();
+        const { camera, exploration } = view.update(state, now);
+        motion.update(state, now);
+        fitCanvas(ctx);
+        drawScene(ctx, state, isDarkRef.current, ghostPosition(ghostRef.current, state), camera, { fog: { lighting, exploration }, motion });
+        drawMinimap(ctx, state, exploration, camera, isDarkRef.current);
+      },
     });
-
-    // Draw Player
-    ctx.fillStyle = isDark ? '#fbbf24' : '#b45309';
-    ctx.fillRect(gameState.playerPos.x, gameState.playerPos.y, PLAYER_SIZE, PLAYER_SIZE);
-    ctx.strokeStyle = '#fff';
-    ctx.strokeRect(gameState.playerPos.x, gameState.playerPos.y, PLAYER_SIZE, PLAYER_SIZE);
-
-  }, [gameState, isDark]);
+    return () => {
+      stop();
+      audio.update(null);
+    };
+  }, [hasStarted, watching, input, audio]);
 
   const handlePasswordSubmit = () => {
-    if (inputPassword === gameState.password) {
-      if (!isMuted) sounds.passwordSuccess();
-      setGameState(prev => ({ ...prev, foundPassword: true, showTerminal: false }));
-    } else {
-      if (!isMuted) sounds.passwordFail();
-      setInputPassword('');
-      setGameState(prev => ({ ...prev, showTerminal: false }));
-    }
+    issueCommand({ type: 'submitCode', code: inputPassword });
+    setInputPassword('');
+  };
+
+  const loadReplayFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const replay = parseReplay(await file.text());
+    setReplayError(replay ? '' : 'Not a valid replay file');
+    if (replay) setWatching(replay);
   };
 
-  if (!hasStarted) {
+  if (watching) {
+    return <ReplayPlayer replay={watching} isDark={isDark} onClose={() => setWatching(null)} />;
+  }
+
+  if (!hasStarted || !gameState) {
     return (
       <div className="flex flex-col items-center gap-8 text-center max-w-md">
         <div className="relative">
@@ -423,39 +455,88 @@ export const Game: React.FC<{ isDark: boolean }> = ({ isDark }) => {
         >
           Begin Infiltration
         </button>
+        {savedRun && (
+          <button
+            onClick={continueRun}
+            className="flex items-center gap-2 px-6 py-3 bg-zinc-800 text-white font-bold uppercase tracking-widest rounded-xl hover:bg-zinc-700 transition-colors"
+          >
+            <Play size={18} /> Continue Heist
+            <span className="text-[10px] opacity-50 normal-case tracking-normal">Floor {savedRun.currentFloor} • ${savedRun.score.toLocaleString()} • {configLabel(savedRun.config)}</span>
+          </button>
+        )}
+        <ModeSelect config={config} onChange={changeConfig} />
+        <OnlineLobby room={room} onHost={hostRoom} onJoin={joinRoom} onOffline={playOffline} onCancel={() => leaveRoom()} />
+        <div className="flex flex-col gap-2 w-full max-w-xs">
+          <label className="flex items-center gap-2 bg-zinc-900/40 px-3 py-2 rounded-lg border border-zinc-800">
+            <Hash size={16} className="opacity-40" />
+            <input
+              type="text"
+              value={seedInput}
+              onChange={(e) => setSeedInput(e.target.value)}
+              placeholder="Seed (optional)"
+              className="bg-transparent flex-grow font-mono text-sm uppercase focus:outline-none"
+            />
+          </label>
+          <button
+            onClick={() => startRun(dailySeed())}
+            className="flex items-center justify-center gap-2 py-2 text-xs font-bold uppercase tracking-widest opacity-60 hover:opacity-100 transition-opacity"
+          >
+            <CalendarDays size={14} /> Daily Challenge
+          </button>
+          <label className="flex items-center justify-center gap-2 py-2 text-xs font-bold uppercase tracking-widest opacity-60 hover:opacity-100 transition-opacity cursor-pointer">
+            <Film size={14} /> Load Replay
+            <input type="file" accept="application/json,.json" className="hidden" onChange={loadReplayFile} />
+          </label>
+          {replayError && <p className="text-[10px] text-red-500 uppercase font-bold">{replayError}</p>}
+        </div>
       </div>
     );
   }
 
+  const lockInfo = describeLock(gameState);
+
   return (
     <div className="flex flex-col items-center gap-6 w-full max-w-4xl">
+      {room.status === 'playing' && (
+        <p className="-mb-4 text-[10px] font-mono font-bold uppercase opacity-60">
+          {room.offline ? 'Offline room' : `Room ${room.code}`} • You are P{room.robber + 1}
+        </p>
+      )}
       <div className="grid grid-cols-2 md:grid-cols-4 gap-4 w-full">
         <div className="bg-zinc-900/40 p-3 rounded-xl border border-zinc-800 flex items-center gap-3">
           <Trophy className="text-yellow-500" size={20} />
           <div>
             <p className="text-[10px] uppercase font-bold opacity-40">Score</p>
             <p className="font-black text-lg">${gameState.score.toLocaleString()}</p>
+            {gameState.partner && (
+              <p className="text-[10px] font-bold opacity-60">
+                P1 ${gameState.stats.lootBy[0].toLocaleString()} • P2 ${gameState.stats.lootBy[1].toLocaleString()}
+              </p>
+            )}
           </div>
         </div>
         <div className="bg-zinc-900/40 p-3 rounded-xl border border-zinc-800 flex items-center gap-3">
           <Move className="text-blue-500" size={20} />
           <div>
             <p className="text-[10px] uppercase font-bold opacity-40">Floor</p>
-            <p className="font-black text-lg">{gameState.currentFloor}</p>
+            <p className="font-black text-lg">
+              {gameState.currentFloor}
+              <span className="text-xs text-red-400 ml-2">♥{gameState.lives}</span>
+            </p>
           </div>
         </div>
         <div className="bg-zinc-900/40 p-3 rounded-xl border border-zinc-800 flex items-center gap-3">
-          <TimerIcon className={gameState.timeLeft < 10 ? "text-red-500 animate-pulse" : "text-zinc-500"} size={20} />
+          <TimerIcon className={settingsFor(gameState.config).timer && gameState.timeLeft < 10 ? "text-red-500 animate-pulse" : "text-zinc-500"} size={20} />
           <div>
             <p className="text-[10px] uppercase font-bold opacity-40">Time</p>
-            <p className="font-black text-lg">{Math.ceil(gameState.timeLeft)}s</p>
+            <p className="font-black text-lg">{settingsFor(gameState.config).timer ? `${Math.ceil(gameState.timeLeft)}s` : '∞'}</p>
           </div>
         </div>
         <div className="bg-zinc-900/40 p-3 rounded-xl border border-zinc-800 flex items-center gap-3">
           {gameState.foundPassword ? <Unlock className="text-green-500" size={20} /> : <Lock className="text-red-500" size={20} />}
           <div>
             <p className="text-[10px] uppercase font-bold opacity-40">Security</p>
-            <p className="font-black text-lg">{gameState.foundPassword ? 'CRACKED' : 'LOCKED'}</p>
+            <p className="font-black text-lg">{gameState.foundPassword ? 'CRACKED' : `LOCKED ${gameState.fragments.filter(f => f.collected).length}/${gameState.fragments.length}`}</p>
           </div>
         </div>
       </div>
@@ -469,38 +550,64 @@ export const Game: React.FC<{ isDark: boolean }> = ({ isDark }) => {
         />
 
         {(gameState.isPaused || gameState.isGameOver) && (
-          <div className="absolute inset-0 bg-black/80 backdrop-blur-sm rounded-xl flex flex-col items-center justify-center p-6 text-center max-w-[600px] mx-auto">
+          <div className="absolute inset-0 bg-black/80 backdrop-blur-sm rounded-xl flex flex-col items-center justify-center p-6 text-center overflow-y-auto max-w-[600px] mx-auto">
             {gameState.isGameOver ? (
               <>
-                <ShieldAlert size={60} className="text-red-500 mb-4" />
-                <h2 className="text-3xl font-black uppercase mb-2">Busted!</h2>
-                <p className="mb-6 opacity-60">You were caught or ran out of time on floor {gameState.currentFloor}.</p>
-                <button onClick={resetGame} className="flex items-center gap-2 px-6 py-3 bg-white text-black font-bold rounded-lg hover:bg-zinc-200 transition-colors">
-                  <RotateCcw size={18} /> Try Again
-                </button>
+                {gameState.gameOverReason === 'timeUp'
+                  ? <TimerIcon size={40} className="text-red-500 mb-2" />
+                  : <ShieldAlert size={40} className="text-red-500 mb-2" />}
+                <h2 className="text-3xl font-black uppercase mb-1">{GAME_OVER_TEXT[gameState.gameOverReason ?? 'caught'].title}</h2>
+                <p className="mb-1 opacity-60">{GAME_OVER_TEXT[gameState.gameOverReason ?? 'caught'].message(gameState.currentFloor)}</p>
+                <p className="mb-3 text-xs font-mono opacity-40">SEED: {gameState.seed} • {configLabel(gameState.config).toUpperCase()}</p>
+                {runResult && <RunSummary state={gameState} result={runResult} />}
+                <div className="flex gap-3">
+                  <button onClick={resetGame} className="flex items-center gap-2 px-6 py-3 bg-white text-black font-bold rounded-lg hover:bg-zinc-200 transition-colors">
+                    <RotateCcw size={18} /> Try Again
+                  </button>
+                  <button onClick={() => (netRef.current ? netRef.current.restart(gameState.seed) : startRun(gameState.seed))} className="flex items-center gap-2 px-6 py-3 bg-zinc-800 text-white font-bold rounded-lg hover:bg-zinc-700 transition-colors">
+                    <Hash size={18} /> Same Seed
+                  </button>
+                </div>
+                {lastReplay && (
+                  <div className="flex gap-3 mt-3 text-xs font-bold uppercase">
+                    <button onClick={() => setWatching(lastReplay)} className="flex items-center gap-1 opacity-60 hover:opacity-100 transition-opacity">
+                      <Film size={14} /> Watch Replay
+                    </button>
+                    <button onClick={() => downloadReplay(lastReplay)} className="flex items-center gap-1 opacity-60 hover:opacity-100 transition-opacity">
+                      <Download size={14} /> Export
+                    </button>
+                  </div>
+                )}
               </>
             ) : (
               <>
                 <Pause size={60} className="text-yellow-500 mb-4" />
                 <h2 className="text-3xl font-black uppercase mb-6">Game Paused</h2>
                 <button 
-                  onClick={() => setGameState(prev => ({ ...prev, isPaused: false }))}
+                  onClick={() => setPaused(false)}
                   className="flex items-center gap-2 px-6 py-3 bg-yellow-500 text-black font-bold rounded-lg hover:bg-yellow-400 transition-colors"
                 >
                   <Play size={18} /> Resume
                 </button>
+                <VolumeControls volume={volume} onChange={changeVolume} />
               </>
             )}
           </div>
         )}
 
+        {gameState.showShop && !gameState.isGameOver && (
+          <Intermission state={gameState} onBuyGadget={purchaseGadget} onBuyUpgrade={purchaseUpgrade} onContinue={leaveShop} />
+        )}
+
         {gameState.showTerminal && (
           <div className="absolute inset-0 bg-black/90 backdrop-blur-md rounded-xl flex flex-col items-center justify-center p-8 max-w-[600px] mx-auto">
             <div className="w-full max-w-xs space-y-4">
               <div className="flex items-center gap-2 text-green-500 font-mono text-sm mb-4">
                 <span className="animate-pulse">_</span> SECURITY_TERMINAL_V2.0
               </div>
-              <p className="text-xs opacity-50 mb-6 font-mono">ENCRYPTED KEY REQUIRED. HINT: {gameState.password}</p>
+              <p className="text-xs opacity-50 font-mono">{lockInfo.hint}</p>
+              <p className="text-green-500 text-2xl font-mono tracking-[0.5em] text-center">{lockInfo.display}</p>
+              <p className="text-[10px] opacity-40 mb-6 font-mono">{lockInfo.progress}. WRONG KEYS SOUND A BUZZER GUARDS CAN HEAR.</p>
               <input 
                 autoFocus
                 type="text"
@@ -513,7 +620,7 @@ export const Game: React.FC<{ isDark: boolean }> = ({ isDark }) => {
               />
               <div className="grid grid-cols-2 gap-3">
                  <button 
-                  onClick={() => setGameState(prev => ({ ...prev, showTerminal: false }))}
+                  onClick={() => issueCommand({ type: 'closeTerminal' })}
                   className="py-3 bg-zinc-800 text-white rounded-lg font-bold hover:bg-zinc-700"
                 >
                   ABORT
@@ -530,39 +637,70 @@ export const Game: React.FC<{ isDark: boolean }> = ({ isDark }) => {
         )}
       </div>
 
+      <AbilityBar
+        state={gameState}
+        bindings={bindings}
+        onAbility={triggerAbility}
+        onPosture={input.setVirtualPosture}
+        robber={room.status === 'playing' ? room.robber : 0}
+      />
+
       <div className="flex flex-wrap justify-center gap-8 items-start w-full">
-        <VirtualControls 
-          onMove={(dir) => setMoveDir(dir)} 
-          onStop={() => setMoveDir(Direction.NONE)} 
+        <VirtualControls
+          onDirection={input.setVirtualDirection}
+          onStick={input.setVirtualStick}
         />
         
         <div className="flex flex-col gap-4">
           <div className="flex gap-2">
+            {room.status === 'playing' ? (
+              <button
+                onClick={() => leaveRoom()}
+                className="p-4 bg-zinc-800 rounded-xl hover:bg-zinc-700 transition-colors"
+                title="Leave room"
+              >
+                <LogOut size={24} />
+              </button>
+            ) : (
+              <>
+                <button 
+                  onClick={() => setPaused(!gameState.isPaused)}
+                  className="p-4 bg-zinc-800 rounded-xl hover:bg-zinc-700 transition-colors"
+                  title="Pause (P)"
+                >
+                  {gameState.isPaused ? <Play size={24} /> : <Pause size={24} />}
+                </button>
+                <button 
+                  onClick={resetGame}
+                  className="p-4 bg-zinc-800 rounded-xl hover:bg-zinc-700 transition-colors"
+                  title="Restart"
+                >
+                  <RotateCcw size={24} />
+                </button>
+              </>
+            )}
             <button 
-              onClick={() => setGameState(prev => ({ ...prev, isPaused: !prev.isPaused }))}
-              className="p-4 bg-zinc-800 rounded-xl hover:bg-zinc-700 transition-colors"
-              title="Pause (P)"
-            >
-              {gameState.isPaused ? <Play size={24} /> : <Pause size={24} />}
-            </button>
-            <button 
-              onClick={resetGame}
-              className="p-4 bg-zinc-800 rounded-xl hover:bg-zinc-700 transition-colors"
-              title="Restart"
-            >
-              <RotateCcw size={24} />
-            </button>
-            <button 
-              onClick={() => setIsMuted(!isMuted)}
+              onClick={() => changeVolume({ ...volume, muted: !volume.muted })}
               className="p-4 bg-zinc-800 rounded-xl hover:bg-zinc-700 transition-colors"
               title="Mute"
             >
-              {isMuted ? <VolumeX size={24} /> : <Volume2 size={24} />}
+              {volume.muted ? <VolumeX size={24} /> : <Volume2 size={24} />}
             </button>
           </div>
-          <div className="text-[10px] uppercase font-bold opacity-30 text-center">
-            WASD TO MOVE • P TO PAUSE
-          </div>
+          <button
+            onClick={() => setShowBindings(!showBindings)}
+            className="text-[10px] uppercase font-bold opacity-30 hover:opacity-60 text-center transition-opacity"
+          >
+            {MOVE_ACTIONS.map(a => keyLabel(bindings[a][0] ?? '')).join('')} / GAMEPAD TO MOVE • {bindings.PAUSE.map(keyLabel).join(' / ')} TO PAUSE
+          </button>
+          {gameState.partner && (room.status !== 'playing' || room.offline) && (
+            <p className="text-[10px] uppercase font-bold opacity-30 text-center">
+              P2: {MOVE_ACTIONS.map(a => keyLabel(PARTNER_BINDINGS[a][0])).join('')} / 2ND GAMEPAD •{' '}
+              {keyLabel(PARTNER_BINDINGS.SPRINT[0])} SPRINT • {keyLabel(PARTNER_BINDINGS.CROUCH[0])} CROUCH •{' '}
+              {(['THROW', 'SMOKE', 'EMP'] as const).map(a => keyLabel(PARTNER_BINDINGS[a][0])).join(' ')} ABILITIES
+            </p>
+          )}
+          {showBindings && <KeyBindings bindings={bindings} onChange={changeBindings} />}
         </div>
       </div>
     </div>
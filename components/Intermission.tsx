@@ -0,0 +1,90 @@
+import React from 'react';
+import { ShoppingCart } from 'lucide-react';
+import { GadgetId, GameState, UpgradeId } from '../types';
+import { GADGET_IDS, GADGETS } from '../game/abilities';
+import { formatTime } from '../game/leaderboard';
+import { nextPrice, UPGRADE_IDS, UPGRADES } from '../game/upgrades';
+
+interface Props {
+  state: GameState;
+  onBuyGadget: (gadget: GadgetId) => void;
+  onBuyUpgrade: (upgrade: UpgradeId) => void;
+  onContinue: () => void;
+}
+
+const Stat: React.FC<{ label: string; value: React.ReactNode }> = ({ label, value }) => (
+  <div className="bg-zinc-900/60 px-2 py-1.5 rounded-lg border border-zinc-800">
+    <p className="text-[9px] uppercase font-bold opacity-40">{label}</p>
+    <p className="font-black text-sm">{value}</p>
+  </div>
+);
+
+const Item: React.FC<{ label: string; detail: string; owned: string; price: number | null; canAfford: boolean; onBuy: () => void }> = ({
+  label, detail, owned, price, canAfford, onBuy,
+}) => (
+  <div className="flex items-center gap-3 bg-zinc-900 border border-zinc-800 rounded-lg px-3 py-2 text-left">
+    <div className="flex-grow">
+      <p className="font-bold text-sm">{label} <span className="opacity-40 font-mono text-xs">{owned}</span></p>
+      <p className="text-[10px] opacity-50">{detail}</p>
+    </div>
+    <button
+      onClick={onBuy}
+      disabled={price === null || !canAfford}
+      className="px-3 py-2 bg-yellow-500 text-black text-xs font-bold rounded-lg hover:bg-yellow-400 disabled:opacity-30 disabled:hover:bg-yellow-500 transition-colors"
+    >
+      {price === null ? 'MAX' : `$${price}`}
+    </button>
+  </div>
+);
+
+/** Between floors: how the last one went, then spend score on upgrades and gadgets. */
+export const Intermission: React.FC<Props> = ({ state, onBuyGadget, onBuyUpgrade, onContinue }) => {
+  const summary = state.lastFloor;
+  return (
+    <div className="absolute inset-0 bg-black/90 backdrop-blur-md rounded-xl flex flex-col items-center p-6 text-center overflow-y-auto max-w-[600px] mx-auto">
+      <ShoppingCart size={32} className="text-yellow-500 mb-1 shrink-0" />
+      <h2 className="text-2xl font-black uppercase">Fence's Back Room</h2>
+      <p className="text-xs opacity-50 mb-3">Floor {state.currentFloor} next • ${state.score.toLocaleString()} to spend</p>
+      {summary && (
+        <div className="grid grid-cols-4 gap-2 w-full max-w-sm mb-4">
+          <Stat label={`Floor ${summary.floor} loot`} value={`$${summary.loot.toLocaleString()}`} />
+          <Stat label="Bills" value={`${summary.bills}/${summary.billsAvailable}`} />
+          <Stat label="Time" value={formatTime(summary.time)} />
+          <Stat label="Lives" value={state.lives} />
+        </div>
+      )}
+      <div className="w-full max-w-sm space-y-2 mb-4">
+        <p className="text-[10px] uppercase font-bold opacity-40 text-left">Upgrades</p>
+        {UPGRADE_IDS.map(id => {
+          const price = nextPrice(state, id);
+          return (
+            <Item
+              key={id}
+              label={UPGRADES[id].label}
+              detail={UPGRADES[id].description}
+              owned={`${state.upgrades[id]}/${UPGRADES[id].prices.length}`}
+              price={price}
+              canAfford={price !== null && state.score >= price}
+              onBuy={() => onBuyUpgrade(id)}
+            />
+          );
+        })}
+        <p className="text-[10px] uppercase font-bold opacity-40 text-left pt-2">Gadgets</p>
+        {GADGET_IDS.map(id => (
+          <Item
+            key={id}
+            label={GADGETS[id].label}
+            detail={GADGETS[id].description}
+            owned={`×${state.gadgets[id]}`}
+            price={GADGETS[id].price}
+            canAfford={state.score >= GADGETS[id].price}
+            onBuy={() => onBuyGadget(id)}
+          />
+        ))}
+      </div>
+      <button onClick={onContinue} className="px-6 py-3 bg-white text-black font-bold rounded-lg hover:bg-zinc-200 transition-colors shrink-0">
+        Next Floor
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,61 @@
+import React, { useEffect, useState } from 'react';
+import { Direction } from '../types';
+import { BINDABLE_ACTIONS, DEFAULT_BINDINGS, InputAction, KeyBindingMap, keyLabel, rebind } from '../game/input';
+
+interface Props {
+  bindings: KeyBindingMap;
+  onChange: (bindings: KeyBindingMap) => void;
+}
+
+const ACTION_LABELS: Record<InputAction, string> = {
+  [Direction.UP]: 'Up',
+  [Direction.DOWN]: 'Down',
+  [Direction.LEFT]: 'Left',
+  [Direction.RIGHT]: 'Right',
+  PAUSE: 'Pause',
+  SPRINT: 'Sprint',
+  CROUCH: 'Crouch',
+  THROW: 'Throw',
+  SMOKE: 'Smoke',
+  EMP: 'EMP',
+};
+
+export const KeyBindings: React.FC<Props> = ({ bindings, onChange }) => {
+  const [listening, setListening] = useState<InputAction | null>(null);
+
+  useEffect(() => {
+    if (!listening) return;
+    const capture = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopImmediatePropagation();
+      onChange(rebind(bindings, listening, e.code));
+      setListening(null);
+    };
+    // Capture phase so the game's own key handler never sees the key.
+    window.addEventListener('keydown', capture, true);
+    return () => window.removeEventListener('keydown', capture, true);
+  }, [listening, bindings, onChange]);
+
+  return (
+    <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-[10px] uppercase font-bold">
+      {BINDABLE_ACTIONS.map(action => (
+        <button
+          key={action}
+          onClick={() => setListening(action)}
+          className="flex justify-between gap-3 px-2 py-1 rounded bg-zinc-800/40 hover:bg-zinc-700/60 transition-colors"
+        >
+          <span className="opacity-50">{ACTION_LABELS[action]}</span>
+          <span className={listening === action ? 'text-yellow-500 animate-pulse' : ''}>
+            {listening === action ? 'Press key' : bindings[action].map(keyLabel).join(' / ')}
+          </span>
+        </button>
+      ))}
+      <button
+        onClick={() => onChange(DEFAULT_BINDINGS)}
+        className="px-2 py-1 rounded opacity-40 hover:opacity-100 transition-opacity"
+      >
+        Reset
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,533 @@
+import { Download, Eraser, FlagTriangleRight, Footprints, Key, Lightbulb, MousePointer2, Play, Square, Upload, UserRound, DollarSign, DoorOpen, Pencil } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { FragmentKind, LevelDefinition, LockType, Point, Size, Wall } from '../types';
+import { DEFAULT_WORLD, GUARD_SIZE, PASSWORD_LENGTH, PLAYER_SIZE } from '../game/constants';
+import { borderWalls, doorPosFor } from '../game/generation';
+import { validateLevel } from '../game/levels';
+import { Game } from './Game';
+import { LAMP_RADIUS } from './lighting';
+
+type Tool = 'select' | 'wall' | 'money' | 'fragment' | 'guard' | 'lamp' | 'spawn' | 'door' | 'erase';
+
+type Drag =
+  | { kind: 'draw'; start: Point; current: Point }
+  | { kind: 'move'; index: number; offset: Point }
+  | { kind: 'resize'; index: number };
+
+const SNAP = 10;
+const HANDLE_SIZE = 8;
+const HIT_RADIUS = 10;
+const ROOM_STEP = 100;
+const DRAFT_KEY = 'heist.editor.draft';
+const LOCK_TYPES: LockType[] = ['code', 'scrambled', 'checksum'];
+const FRAGMENT_KINDS: FragmentKind[] = ['keycard', 'note', 'computer'];
+
+const TOOLS: { tool: Tool; label: string; icon: React.ReactNode }[] = [
+  { tool: 'select', label: 'Select / move / resize walls', icon: <MousePointer2 size={16} /> },
+  { tool: 'wall', label: 'Draw wall', icon: <Square size={16} /> },
+  { tool: 'money', label: 'Place money', icon: <DollarSign size={16} /> },
+  { tool: 'fragment', label: 'Place code fragment', icon: <Key size={16} /> },
+  { tool: 'guard', label: 'Add guard waypoints', icon: <Footprints size={16} /> },
+  { tool: 'lamp', label: 'Place lamp', icon: <Lightbulb size={16} /> },
+  { tool: 'spawn', label: 'Set spawn', icon: <UserRound size={16} /> },
+  { tool: 'door', label: 'Set door', icon: <DoorOpen size={16} /> },
+  { tool: 'erase', label: 'Erase', icon: <Eraser size={16} /> },
+];
+
+const emptyLevel = (): LevelDefinition => ({
+  name: 'Untitled Floor',
+  timeLimit: 60,
+  spawn: { x: 30, y: 30 },
+  door: doorPosFor(DEFAULT_WORLD),
+  walls: borderWalls(DEFAULT_WORLD),
+  money: [],
+  guards: [],
+  lock: { type: 'code' },
+  lamps: [],
+});
+
+const loadDraft = (): LevelDefinition => {
+  try {
+    const draft = JSON.parse(localStorage.getItem(DRAFT_KEY) ?? 'null');
+    // Older drafts may miss fields added since; fill them in as a loaded file would be.
+    if (draft && typeof draft === 'object' && Array.isArray(draft.walls)) {
+      return { ...emptyLevel(), ...draft, lock: draft.lock ?? { type: 'code' } };
+    }
+  } catch (e) {
+    // Start from scratch
+  }
+  return emptyLevel();
+};
+
+const snap = (v: number) => Math.round(v / SNAP) * SNAP;
+const dist = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+const inWall = (p: Point, w: Wall) => p.x >= w.x && p.x <= w.x + w.w && p.y >= w.y && p.y <= w.y + w.h;
+const sameWall = (a: Wall, b: Wall) => a.x === b.x && a.y === b.y && a.w === b.w && a.h === b.h;
+
+// Resizing the floor moves its outer walls along with it.
+const resizeWorld = (level: LevelDefinition, world: Size): LevelDefinition => {
+  const oldBorder = borderWalls(level.world ?? DEFAULT_WORLD);
+  const inner = level.walls.filter(w => !oldBorder.some(b => sameWall(b, w)));
+  return { ...level, world, walls: [...borderWalls(world), ...inner] };
+};
+
+const normalizeRect = (a: Point, b: Point): Wall => ({
+  x: Math.min(a.x, b.x),
+  y: Math.min(a.y, b.y),
+  w: Math.abs(b.x - a.x),
+  h: Math.abs(b.y - a.y),
+});
+
+const drawLevel = (
+  ctx: CanvasRenderingContext2D,
+  level: LevelDefinition,
+  selectedWall: number | null,
+  activeGuard: number | null,
+  preview: Wall | null,
+  isDark: boolean,
+) => {
+  const world = level.world ?? DEFAULT_WORLD;
+  ctx.clearRect(0, 0, world.width, world.height);
+
+  // Grid
+  ctx.strokeStyle = isDark ? 'rgba(255, 255, 255, 0.04)' : 'rgba(0, 0, 0, 0.05)';
+  ctx.beginPath();
+  for (let x = 0; x <= world.width; x += SNAP * 5) { ctx.moveTo(x, 0); ctx.lineTo(x, world.height); }
+  for (let y = 0; y <= world.height; y += SNAP * 5) { ctx.moveTo(0, y); ctx.lineTo(world.width, y); }
+  ctx.stroke();
+
+  // What each lamp lights, under the walls that will cut it short in game.
+  (level.lamps ?? []).forEach(l => {
+    ctx.fillStyle = 'rgba(250, 204, 21, 0.08)';
+    ctx.beginPath();
+    ctx.arc(l.x, l.y, LAMP_RADIUS, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillStyle = '#facc15';
+    ctx.fillRect(l.x - 4, l.y - 4, 8, 8);
+  });
+
+  level.walls.forEach((w, i) => {
+    ctx.fillStyle = isDark ? '#3f3f46' : '#d4d4d8';
+    ctx.fillRect(w.x, w.y, w.w, w.h);
+    if (i === selectedWall) {
+      ctx.strokeStyle = '#eab308';
+      ctx.strokeRect(w.x, w.y, w.w, w.h);
+      ctx.fillStyle = '#eab308';
+      ctx.fillRect(w.x + w.w - HANDLE_SIZE / 2, w.y + w.h - HANDLE_SIZE / 2, HANDLE_SIZE, HANDLE_SIZE);
+    }
+  });
+  if (preview) {
+    ctx.strokeStyle = '#eab308';
+    ctx.setLineDash([4, 4]);
+    ctx.strokeRect(preview.x, preview.y, preview.w, preview.h);
+    ctx.setLineDash([]);
+  }
+
+  ctx.font = '10px bold sans-serif';
+  level.money.forEach(m => {
+    ctx.fillStyle = '#22c55e';
+    ctx.beginPath();
+    ctx.arc(m.pos.x, m.pos.y, 6, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillText(`$${m.value}`, m.pos.x + 8, m.pos.y + 4);
+  });
+
+  (level.lock.fragments ?? []).forEach(f => {
+    ctx.fillStyle = '#3b82f6';
+    ctx.fillRect(f.pos.x - 6, f.pos.y - 6, 12, 12);
+    ctx.fillStyle = '#fff';
+    ctx.fillText(`#${f.digitIndex + 1}`, f.pos.x + 8, f.pos.y + 4);
+  });
+
+  level.guards.forEach((g, i) => {
+    const active = i === activeGuard;
+    ctx.strokeStyle = active ? '#ef4444' : 'rgba(239, 68, 68, 0.5)';
+    ctx.beginPath();
+    g.path.forEach((p, j) => {
+      const cx = p.x + GUARD_SIZE / 2;
+      const cy = p.y + GUARD_SIZE / 2;
+      if (j === 0) ctx.moveTo(cx, cy);
+      else ctx.lineTo(cx, cy);
+    });
+    if (g.path.length > 2) ctx.closePath();
+    ctx.stroke();
+    g.path.forEach((p, j) => {
+      ctx.fillStyle = j === 0 ? '#ef4444' : 'rgba(239, 68, 68, 0.35)';
+      ctx.fillRect(p.x, p.y, GUARD_SIZE, GUARD_SIZE);
+      ctx.fillStyle = '#fff';
+      ctx.fillText(`${i + 1}.${j + 1}`, p.x + 3, p.y + 15);
+    });
+  });
+
+  ctx.fillStyle = '#eab308';
+  ctx.fillRect(level.door.x, level.door.y, 30, 30);
+  ctx.fillStyle = '#fff';
+  ctx.fillText('DOOR', level.door.x, level.door.y - 5);
+
+  ctx.fillStyle = isDark ? '#fbbf24' : '#b45309';
+  ctx.fillRect(level.spawn.x, level.spawn.y, PLAYER_SIZE, PLAYER_SIZE);
+  ctx.fillStyle = '#fff';
+  ctx.fillText('SPAWN', level.spawn.x, level.spawn.y - 5);
+};
+
+export const LevelEditor: React.FC<{ isDark: boolean }> = ({ isDark }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [level, setLevel] = useState<LevelDefinition>(loadDraft);
+  const [tool, setTool] = useState<Tool>('select');
+  const [selectedWall, setSelectedWall] = useState<number | null>(null);
+  const [activeGuard, setActiveGuard] = useState<number | null>(null);
+  const [drag, setDrag] = useState<Drag | null>(null);
+  const [moneyValue, setMoneyValue] = useState(100);
+  const [fragmentKind, setFragmentKind] = useState<FragmentKind>('keycard');
+  const [playtest, setPlaytest] = useState(false);
+  const [loadError, setLoadError] = useState('');
+
+  const { errors } = validateLevel(level);
+  const world = level.world ?? DEFAULT_WORLD;
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(DRAFT_KEY, JSON.stringify(level));
+    } catch (e) {
+      // The draft just won't survive a reload
+    }
+  }, [level]);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    const preview = drag?.kind === 'draw' ? normalizeRect(drag.start, drag.current) : null;
+    drawLevel(ctx, level, selectedWall, activeGuard, preview, isDark);
+  }, [level, selectedWall, activeGuard, drag, isDark, playtest]);
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (playtest || selectedWall === null || (e.key !== 'Delete' && e.key !== 'Backspace')) return;
+      if (e.target instanceof HTMLInputElement) return;
+      setLevel(prev => ({ ...prev, walls: prev.walls.filter((_, i) => i !== selectedWall) }));
+      setSelectedWall(null);
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [selectedWall, playtest]);
+
+  const toWorld = (e: React.PointerEvent<HTMLCanvasElement>): Point => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: snap(((e.clientX - rect.left) / rect.width) * world.width),
+      y: snap(((e.clientY - rect.top) / rect.height) * world.height),
+    };
+  };
+
+  const fragments = level.lock.fragments ?? [];
+  const setFragments = (next: LevelDefinition['lock']['fragments']) =>
+    setLevel(prev => ({ ...prev, lock: { ...prev.lock, fragments: next && next.length > 0 ? next : undefined } }));
+
+  const lamps = level.lamps ?? [];
+
+  const erase = (p: Point) => {
+    const moneyIdx = level.money.findIndex(m => dist(m.pos, p) < HIT_RADIUS);
+    if (moneyIdx >= 0) {
+      setLevel(prev => ({ ...prev, money: prev.money.filter((_, i) => i !== moneyIdx) }));
+      return;
+    }
+    const fragIdx = fragments.findIndex(f => dist(f.pos, p) < HIT_RADIUS);
+    if (fragIdx >= 0) {
+      setFragments(fragments.filter((_, i) => i !== fragIdx));
+      return;
+    }
+    const lampIdx = lamps.findIndex(l => dist(l, p) < HIT_RADIUS);
+    if (lampIdx >= 0) {
+      setLevel(prev => ({ ...prev, lamps: lamps.filter((_, i) => i !== lampIdx) }));
+      return;
+    }
+    for (let gi = 0; gi < level.guards.length; gi++) {
+      const wi = level.guards[gi].path.findIndex(w => inWall(p, { ...w, w: GUARD_SIZE, h: GUARD_SIZE }));
+      if (wi >= 0) {
+        setLevel(prev => ({
+          ...prev,
+          guards: prev.guards
+            .map((g, i) => (i === gi ? { ...g, path: g.path.filter((_, j) => j !== wi) } : g))
+            .filter(g => g.path.length > 0),
+        }));
+        setActiveGuard(null);
+        return;
+      }
+    }
+    const wallIdx = level.walls.findIndex(w => inWall(p, w));
+    if (wallIdx >= 0) {
+      setLevel(prev => ({ ...prev, walls: prev.walls.filter((_, i) => i !== wallIdx) }));
+      setSelectedWall(null);
+    }
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const p = toWorld(e);
+    switch (tool) {
+      case 'select': {
+        const sel = selectedWall !== null ? level.walls[selectedWall] : null;
+        if (sel && dist(p, { x: sel.x + sel.w, y: sel.y + sel.h }) <= HANDLE_SIZE) {
+          setDrag({ kind: 'resize', index: selectedWall! });
+          return;
+        }
+        // Topmost (last drawn) wall wins.
+        let idx = -1;
+        level.walls.forEach((w, i) => { if (inWall(p, w)) idx = i; });
+        setSelectedWall(idx >= 0 ? idx : null);
+        if (idx >= 0) setDrag({ kind: 'move', index: idx, offset: { x: p.x - level.walls[idx].x, y: p.y - level.walls[idx].y } });
+        return;
+      }
+      case 'wall':
+        setDrag({ kind: 'draw', start: p, current: p });
+        return;
+      case 'money':
+        setLevel(prev => ({ ...prev, money: [...prev.money, { pos: p, value: moneyValue }] }));
+        return;
+      case 'fragment': {
+        const used = new Set(fragments.map(f => f.digitIndex));
+        const digitIndex = Array.from({ length: PASSWORD_LENGTH }, (_, i) => i).find(i => !used.has(i));
+        if (digitIndex === undefined) return;
+        setFragments([...fragments, { pos: p, kind: fragmentKind, digitIndex }]);
+        return;
+      }
+      case 'guard':
+        if (activeGuard === null) {
+          setLevel(prev => ({ ...prev, guards: [...prev.guards, { path: [p], speed: 1.5 }] }));
+          setActiveGuard(level.guards.length);
+        } else {
+          setLevel(prev => ({
+            ...prev,
+            guards: prev.guards.map((g, i) => (i === activeGuard ? { ...g, path: [...g.path, p] } : g)),
+          }));
+        }
+        return;
+      case 'lamp':
+        setLevel(prev => ({ ...prev, lamps: [...(prev.lamps ?? []), p] }));
+        return;
+      case 'spawn':
+        setLevel(prev => ({ ...prev, spawn: p }));
+        return;
+      case 'door':
+        setLevel(prev => ({ ...prev, door: p }));
+        return;
+      case 'erase':
+        erase(p);
+        return;
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drag) return;
+    const p = toWorld(e);
+    if (drag.kind === 'draw') {
+      setDrag({ ...drag, current: p });
+    } else if (drag.kind === 'move') {
+      setLevel(prev => ({
+        ...prev,
+        walls: prev.walls.map((w, i) => (i === drag.index ? { ...w, x: p.x - drag.offset.x, y: p.y - drag.offset.y } : w)),
+      }));
+    } else {
+      setLevel(prev => ({
+        ...prev,
+        walls: prev.walls.map((w, i) => (i === drag.index ? { ...w, w: Math.max(SNAP, p.x - w.x), h: Math.max(SNAP, p.y - w.y) } : w)),
+      }));
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (drag?.kind === 'draw') {
+      const rect = normalizeRect(drag.start, drag.current);
+      if (rect.w >= SNAP && rect.h >= SNAP) {
+        setLevel(prev => ({ ...prev, walls: [...prev.walls, rect] }));
+        setSelectedWall(level.walls.length);
+      }
+    }
+    setDrag(null);
+  };
+
+  const handleLoad = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const data = JSON.parse(await file.text());
+      if (!data || typeof data !== 'object' || !Array.isArray(data.walls)) throw new Error('not a level');
+      // Load it even if it has problems; the error list shows what to fix.
+      setLevel({ ...emptyLevel(), ...data, lock: data.lock ?? { type: 'code' } });
+      setSelectedWall(null);
+      setActiveGuard(null);
+      setLoadError('');
+    } catch (err) {
+      setLoadError(`${file.name} is not a level file`);
+    }
+  };
+
+  const handleSave = () => {
+    const blob = new Blob([JSON.stringify(level, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${level.name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-') || 'level'}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const inputClass = 'bg-zinc-900/40 border border-zinc-800 rounded px-2 py-1 text-xs font-mono w-full';
+  const guard = activeGuard !== null ? level.guards[activeGuard] : null;
+
+  return (
+    <div className="flex flex-col items-center gap-4 w-full max-w-4xl">
+      <div className="flex flex-wrap justify-between items-center gap-2 w-full">
+        <div className="flex gap-1">
+          {TOOLS.map(t => (
+            <button
+              key={t.tool}
+              onClick={() => { setTool(t.tool); if (t.tool !== 'guard') setActiveGuard(null); }}
+              disabled={playtest}
+              title={t.label}
+              className={`p-2 rounded-lg border transition-colors ${tool === t.tool ? 'bg-yellow-500 text-black border-yellow-500' : 'border-zinc-700/50 hover:bg-zinc-800/40'} disabled:opacity-30`}
+            >
+              {t.icon}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-2 text-xs font-bold uppercase">
+          <label className="flex items-center gap-1 px-3 py-2 rounded-lg border border-zinc-700/50 hover:bg-zinc-800/40 cursor-pointer">
+            <Upload size={14} /> Load
+            <input type="file" accept="application/json,.json" className="hidden" onChange={handleLoad} />
+          </label>
+          <button onClick={handleSave} className="flex items-center gap-1 px-3 py-2 rounded-lg border border-zinc-700/50 hover:bg-zinc-800/40">
+            <Download size={14} /> Save
+          </button>
+          <button
+            onClick={() => setPlaytest(!playtest)}
+            disabled={!playtest && errors.length > 0}
+            className={`flex items-center gap-1 px-3 py-2 rounded-lg font-black ${playtest ? 'bg-zinc-700 text-white' : 'bg-yellow-500 text-black'} disabled:opacity-30`}
+          >
+            {playtest ? <><Pencil size={14} /> Edit</> : <><Play size={14} /> Playtest</>}
+          </button>
+        </div>
+      </div>
+
+      {playtest ? (
+        <Game isDark={isDark} playtest={level} />
+      ) : (
+        <div className="flex flex-col md:flex-row gap-4 w-full items-start">
+          <div className="rounded-2xl border-4 border-zinc-800 shadow-2xl w-full max-w-[600px] max-h-[400px] overflow-auto">
+            <canvas
+              ref={canvasRef}
+              width={world.width}
+              height={world.height}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              className="block bg-zinc-900 cursor-crosshair touch-none"
+            />
+          </div>
+          <div className="flex flex-col gap-3 w-full md:w-56 text-[10px] uppercase font-bold">
+            <label className="space-y-1">
+              <span className="opacity-40">Floor name</span>
+              <input className={inputClass} value={level.name} onChange={(e) => setLevel({ ...level, name: e.target.value })} />
+            </label>
+            <div className="grid grid-cols-2 gap-2">
+              <label className="space-y-1">
+                <span className="opacity-40">Width</span>
+                <input
+                  type="number"
+                  min={300}
+                  step={ROOM_STEP}
+                  className={inputClass}
+                  value={world.width}
+                  onChange={(e) => setLevel(resizeWorld(level, { ...world, width: Math.max(300, snap(Number(e.target.value))) }))}
+                />
+              </label>
+              <label className="space-y-1">
+                <span className="opacity-40">Height</span>
+                <input
+                  type="number"
+                  min={200}
+                  step={ROOM_STEP}
+                  className={inputClass}
+                  value={world.height}
+                  onChange={(e) => setLevel(resizeWorld(level, { ...world, height: Math.max(200, snap(Number(e.target.value))) }))}
+                />
+              </label>
+            </div>
+            <label className="space-y-1">
+              <span className="opacity-40">Time limit (s)</span>
+              <input type="number" min={1} className={inputClass} value={level.timeLimit} onChange={(e) => setLevel({ ...level, timeLimit: Number(e.target.value) })} />
+            </label>
+            <label className="space-y-1">
+              <span className="opacity-40">Lock type</span>
+              <select className={inputClass} value={level.lock.type} onChange={(e) => setLevel({ ...level, lock: { ...level.lock, type: e.target.value as LockType } })}>
+                {LOCK_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+              </select>
+            </label>
+            <label className="space-y-1">
+              <span className="opacity-40">Password (blank = from seed)</span>
+              <input
+                className={inputClass}
+                maxLength={PASSWORD_LENGTH}
+                value={level.lock.password ?? ''}
+                onChange={(e) => {
+                  const password = e.target.value.replace(/\D/g, '');
+                  setLevel({ ...level, lock: { ...level.lock, password: password || undefined } });
+                }}
+              />
+            </label>
+            {tool === 'money' && (
+              <label className="space-y-1">
+                <span className="opacity-40">Bill value</span>
+                <input type="number" min={1} className={inputClass} value={moneyValue} onChange={(e) => setMoneyValue(Number(e.target.value))} />
+              </label>
+            )}
+            {tool === 'fragment' && (
+              <label className="space-y-1">
+                <span className="opacity-40">Fragment kind</span>
+                <select className={inputClass} value={fragmentKind} onChange={(e) => setFragmentKind(e.target.value as FragmentKind)}>
+                  {FRAGMENT_KINDS.map(k => <option key={k} value={k}>{k}</option>)}
+                </select>
+              </label>
+            )}
+            {tool === 'guard' && (
+              <div className="space-y-1">
+                <span className="opacity-40">{guard ? `Guard ${activeGuard! + 1}: ${guard.path.length} waypoints` : 'Click to start a new guard'}</span>
+                {guard && (
+                  <>
+                    <input
+                      type="number"
+                      min={0.1}
+                      step={0.1}
+                      className={inputClass}
+                      value={guard.speed}
+                      onChange={(e) => setLevel({
+                        ...level,
+                        guards: level.guards.map((g, i) => (i === activeGuard ? { ...g, speed: Number(e.target.value) } : g)),
+                      })}
+                    />
+                    <button onClick={() => setActiveGuard(null)} className="flex items-center gap-1 px-2 py-1 rounded border border-zinc-700/50 hover:bg-zinc-800/40">
+                      <FlagTriangleRight size={12} /> Finish guard
+                    </button>
+                  </>
+                )}
+              </div>
+            )}
+            {tool === 'lamp' && (
+              <p className="opacity-40 normal-case">{lamps.length} lamp{lamps.length === 1 ? '' : 's'}. Anything they don't reach is dark in game.</p>
+            )}
+            <button onClick={() => { setLevel(emptyLevel()); setSelectedWall(null); setActiveGuard(null); }} className="text-left opacity-40 hover:opacity-100">
+              Clear floor
+            </button>
+            {loadError && <p className="text-red-500 normal-case">{loadError}</p>}
+            <div className="space-y-1 normal-case font-mono">
+              {errors.length === 0
+                ? <p className="text-green-500">Level is valid.</p>
+                : errors.map(err => <p key={err} className="text-red-500">{err}</p>)}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
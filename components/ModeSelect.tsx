@@ -0,0 +1,47 @@
+import React from 'react';
+import { Difficulty, GameConfig, GameMode } from '../types';
+import { DIFFICULTIES, MODES, settingsFor } from '../game/modes';
+
+interface Props {
+  config: GameConfig;
+  onChange: (config: GameConfig) => void;
+}
+
+const Option: React.FC<{ active: boolean; onClick: () => void; children: React.ReactNode }> = ({ active, onClick, children }) => (
+  <button
+    onClick={onClick}
+    className={`flex-1 px-2 py-1.5 rounded-lg text-[10px] font-bold uppercase tracking-wider transition-colors ${active ? 'bg-yellow-500 text-black' : 'bg-zinc-900/40 border border-zinc-800 opacity-60 hover:opacity-100'}`}
+  >
+    {children}
+  </button>
+);
+
+export const ModeSelect: React.FC<Props> = ({ config, onChange }) => {
+  const multiplier = settingsFor(config).scoreMultiplier;
+  return (
+    <div className="flex flex-col gap-2 w-full max-w-xs">
+      <div className="flex gap-1">
+        {(Object.keys(DIFFICULTIES) as Difficulty[]).map(d => (
+          <Option key={d} active={config.difficulty === d} onClick={() => onChange({ ...config, difficulty: d })}>
+            {DIFFICULTIES[d].label}
+          </Option>
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-1">
+        {(Object.keys(MODES) as GameMode[]).map(m => (
+          <Option key={m} active={config.mode === m} onClick={() => onChange({ ...config, mode: m })}>
+            {MODES[m].label}
+          </Option>
+        ))}
+      </div>
+      <div className="flex gap-1">
+        <Option active={!config.coop} onClick={() => onChange({ ...config, coop: false })}>Solo</Option>
+        <Option active={!!config.coop} onClick={() => onChange({ ...config, coop: true })}>Co-op</Option>
+      </div>
+      <p className="text-[10px] opacity-50">
+        {DIFFICULTIES[config.difficulty].description} {MODES[config.mode].description}
+        {config.coop && ' Two robbers on one keyboard or two gamepads; both must reach the door.'} Score ×{multiplier}
+      </p>
+    </div>
+  );
+};
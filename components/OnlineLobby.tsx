@@ -0,0 +1,92 @@
+import { Globe, Laptop, LogIn, Users, X } from 'lucide-react';
+import React, { useState } from 'react';
+import { RobberIndex } from '../types';
+import { NET_PORT, NetStatus } from '../game/net';
+
+export interface RoomInfo {
+  status: NetStatus;
+  code: string;
+  error: string;
+  offline: boolean; // both players on this page, with no server
+  robber: RobberIndex; // the one this player controls
+}
+
+export const NO_ROOM: RoomInfo = { status: 'idle', code: '', error: '', offline: false, robber: 0 };
+
+interface Props {
+  room: RoomInfo;
+  onHost: (url: string) => void;
+  onJoin: (url: string, code: string) => void;
+  onOffline: () => void;
+  onCancel: () => void;
+}
+
+const DEFAULT_SERVER = `ws://${window.location.hostname || 'localhost'}:${NET_PORT}`;
+
+/** Hosting or joining an online co-op room, and the wait for a partner. */
+export const OnlineLobby: React.FC<Props> = ({ room, onHost, onJoin, onOffline, onCancel }) => {
+  const [url, setUrl] = useState(DEFAULT_SERVER);
+  const [code, setCode] = useState('');
+
+  if (room.status === 'waiting') {
+    return (
+      <div className="flex flex-col items-center gap-2 w-full max-w-xs bg-zinc-900/40 p-4 rounded-xl border border-zinc-800">
+        <p className="text-[10px] uppercase font-bold opacity-40">Room code</p>
+        <p className="font-mono font-black text-4xl tracking-[0.3em]">{room.code}</p>
+        <p className="text-[10px] opacity-50">Waiting for your partner to join with this code…</p>
+        <button onClick={onCancel} className="flex items-center gap-1 text-xs font-bold uppercase opacity-60 hover:opacity-100 transition-opacity">
+          <X size={14} /> Cancel
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-2 w-full max-w-xs">
+      <label className="flex items-center gap-2 bg-zinc-900/40 px-3 py-2 rounded-lg border border-zinc-800">
+        <Globe size={16} className="opacity-40" />
+        <input
+          type="text"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          placeholder="Server address"
+          className="bg-transparent flex-grow font-mono text-xs focus:outline-none"
+        />
+      </label>
+      <div className="flex gap-1">
+        <button
+          onClick={() => onHost(url)}
+          className="flex items-center justify-center gap-1 flex-1 px-2 py-1.5 rounded-lg bg-zinc-800 hover:bg-zinc-700 text-[10px] font-bold uppercase tracking-wider transition-colors"
+        >
+          <Users size={14} /> Host Room
+        </button>
+        <input
+          type="text"
+          value={code}
+          maxLength={4}
+          onChange={(e) => setCode(e.target.value.replace(/[^a-z]/gi, '').toUpperCase())}
+          onKeyDown={(e) => e.key === 'Enter' && code && onJoin(url, code)}
+          placeholder="CODE"
+          className="w-16 bg-zinc-900/40 border border-zinc-800 rounded-lg text-center font-mono text-xs uppercase focus:outline-none"
+        />
+        <button
+          onClick={() => onJoin(url, code)}
+          disabled={code.length === 0}
+          className="flex items-center justify-center gap-1 px-3 py-1.5 rounded-lg bg-zinc-800 hover:bg-zinc-700 disabled:opacity-40 text-[10px] font-bold uppercase tracking-wider transition-colors"
+        >
+          <LogIn size={14} /> Join
+        </button>
+      </div>
+      <button
+        onClick={onOffline}
+        className="flex items-center justify-center gap-2 py-1 text-[10px] font-bold uppercase tracking-widest opacity-60 hover:opacity-100 transition-opacity"
+      >
+        <Laptop size={14} /> Offline Room (no server)
+      </button>
+      <p className="text-[10px] opacity-50">
+        Online co-op: one player hosts on a server started with <span className="font-mono">npm run server</span> and shares the room code. The offline room runs the same way in this page, with P2 on the partner keys.
+      </p>
+      {room.error && <p className="text-[10px] text-red-500 uppercase font-bold">{room.error}</p>}
+    </div>
+  );
+};
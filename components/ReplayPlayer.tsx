@@ -0,0 +1,139 @@
+import { FastForward, Pause, Play, X } from 'lucide-react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { CANVAS_HEIGHT, CANVAS_WIDTH, TICK_RATE } from '../game/constants';
+import { formatTime } from '../game/leaderboard';
+import { createFloorView } from '../game/camera';
+import { startFixedLoop } from '../game/loop';
+import { DEFAULT_CONFIG } from '../game/modes';
+import { createPlayback, hashState, loadGhost, Replay } from '../game/replay';
+import { createMotion } from './motion';
+import { drawMinimap, drawScene, fitCanvas, ghostPosition, interpolateState } from './renderer';
+
+interface Props {
+  replay: Replay;
+  isDark: boolean;
+  onClose: () => void;
+}
+
+const SPEEDS = [0.5, 1, 2, 4];
+// How often the scrub bar and readouts are refreshed, in ticks.
+const UI_REFRESH_TICKS = 6;
+
+export const ReplayPlayer: React.FC<Props> = ({ replay, isDark, onClose }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const playback = useMemo(() => createPlayback(replay), [replay]);
+  const view = useMemo(() => createFloorView(), [replay]);
+  const motion = useMemo(() => createMotion(), [replay]);
+  const ghost = useMemo(() => {
+    const best = loadGhost(replay.seed, replay.campaign, replay.config ?? DEFAULT_CONFIG);
+    return best && best.final.hash !== replay.final.hash ? createPlayback(best) : null;
+  }, [replay]);
+
+  const [playing, setPlaying] = useState(true);
+  const [speed, setSpeed] = useState(1);
+  const [tick, setTick] = useState(0);
+  const playingRef = useRef(playing);
+  playingRef.current = playing;
+  const speedRef = useRef(speed);
+  speedRef.current = speed;
+  const isDarkRef = useRef(isDark);
+  isDarkRef.current = isDark;
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    let pending = 0;
+
+    return startFixedLoop({
+      dt: 1 / TICK_RATE,
+      isRunning: () => playingRef.current && !playback.isDone(),
+      update: () => {
+        pending += speedRef.current;
+        while (pending >= 1 && !playback.isDone()) {
+          playback.step();
+          if (ghost && !ghost.isDone()) ghost.step();
+          pending -= 1;
+        }
+        const t = playback.getTick();
+        if (t % UI_REFRESH_TICKS === 0 || playback.isDone()) setTick(t);
+      },
+      render: (alpha) => {
+        const state = interpolateState(playback.getPrevState(), playback.getState(), alpha);
+        const now = performance.now();
+        const { camera, exploration } = view.update(state, now);
+        motion.update(state, now);
+        fitCanvas(ctx);
+        drawScene(ctx, state, isDarkRef.current, ghostPosition(ghost, state), camera, { motion });
+        drawMinimap(ctx, state, exploration, camera, isDarkRef.current);
+      },
+    });
+  }, [playback, ghost, view, motion]);
+
+  const seek = (target: number) => {
+    playback.seek(target);
+    ghost?.seek(target);
+    view.snap();
+    motion.reset();
+    setTick(playback.getTick());
+  };
+
+  const state = playback.getState();
+  const done = tick >= replay.ticks;
+  const verified = done && hashState(state) === replay.final.hash;
+
+  return (
+    <div className="flex flex-col items-center gap-4 w-full max-w-4xl">
+      <div className="flex justify-between items-center w-full max-w-[600px] text-xs font-mono">
+        <span className="opacity-60">REPLAY • SEED {replay.seed}{ghost ? ' • GHOST' : ''}</span>
+        <span className="opacity-60">FLOOR {state.currentFloor} • ${state.score.toLocaleString()}</span>
+        <button onClick={onClose} className="p-1 rounded hover:bg-zinc-800/40" title="Close replay">
+          <X size={16} />
+        </button>
+      </div>
+
+      <canvas
+        ref={canvasRef}
+        width={CANVAS_WIDTH}
+        height={CANVAS_HEIGHT}
+        className="bg-zinc-900 rounded-2xl border-4 border-zinc-800 shadow-2xl w-full max-w-[600px] aspect-[3/2]"
+      />
+
+      <div className="flex items-center gap-3 w-full max-w-[600px]">
+        <button
+          onClick={() => {
+            if (done) seek(0);
+            setPlaying(done || !playing);
+          }}
+          className="p-3 bg-zinc-800 rounded-xl hover:bg-zinc-700 transition-colors"
+          title={playing ? 'Pause' : 'Play'}
+        >
+          {playing && !done ? <Pause size={18} /> : <Play size={18} />}
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={replay.ticks}
+          value={tick}
+          onChange={(e) => seek(Number(e.target.value))}
+          className="flex-grow accent-yellow-500"
+        />
+        <span className="text-xs font-mono opacity-60 w-20 text-right">
+          {formatTime(tick / TICK_RATE)} / {formatTime(replay.ticks / TICK_RATE)}
+        </span>
+        <button
+          onClick={() => setSpeed(SPEEDS[(SPEEDS.indexOf(speed) + 1) % SPEEDS.length])}
+          className="flex items-center gap-1 p-3 bg-zinc-800 rounded-xl hover:bg-zinc-700 transition-colors text-xs font-bold"
+          title="Playback speed"
+        >
+          <FastForward size={14} /> {speed}x
+        </button>
+      </div>
+
+      {done && (
+        <p className={`text-[10px] uppercase font-bold ${verified ? 'text-green-500' : 'text-red-500'}`}>
+          {verified ? 'Replay verified: final state matches the recording' : 'Replay desynced from the recording'}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,67 @@
+import React from 'react';
+import { GameState } from '../types';
+import { formatTime, LeaderboardEntry, personalBests } from '../game/leaderboard';
+
+export interface RunResult {
+  entries: LeaderboardEntry[];
+  rank: number;
+  bestsBefore: ReturnType<typeof personalBests>;
+}
+
+interface Props {
+  state: GameState;
+  result: RunResult;
+}
+
+const Stat: React.FC<{ label: string; value: React.ReactNode }> = ({ label, value }) => (
+  <div className="bg-zinc-900/60 px-2 py-1.5 rounded-lg border border-zinc-800">
+    <p className="text-[9px] uppercase font-bold opacity-40">{label}</p>
+    <p className="font-black text-sm">{value}</p>
+  </div>
+);
+
+export const RunSummary: React.FC<Props> = ({ state, result }) => {
+  const { stats } = state;
+  const { bestsBefore, entries, rank } = result;
+  const avgFloor = stats.floorTimes.length > 0
+    ? stats.floorTimes.reduce((sum, t) => sum + t, 0) / stats.floorTimes.length
+    : 0;
+
+  return (
+    <div className="w-full max-w-md space-y-3 mb-4">
+      <div className="grid grid-cols-4 gap-2 text-left">
+        <Stat label="Score" value={`$${stats.loot.toLocaleString()}`} />
+        <Stat label="Bills" value={`${stats.billsCollected}/${stats.billsAvailable}`} />
+        <Stat label="Near misses" value={stats.nearMisses} />
+        <Stat label="Wrong codes" value={stats.wrongCodes} />
+        <Stat label="Run time" value={formatTime(stats.elapsed)} />
+        <Stat label="Avg floor" value={stats.floorTimes.length > 0 ? formatTime(avgFloor) : '-'} />
+        <Stat label="Best score" value={stats.loot > bestsBefore.score ? 'NEW!' : `$${bestsBefore.score.toLocaleString()}`} />
+        <Stat label="Best floor" value={state.currentFloor > bestsBefore.floor ? 'NEW!' : bestsBefore.floor} />
+      </div>
+      <div className="flex flex-wrap items-center gap-1 text-[10px] font-mono">
+        <span className="uppercase font-bold opacity-40 mr-1">Floor times</span>
+        {stats.floorTimes.map((t, i) => (
+          <span key={i} className="bg-zinc-900/60 px-1.5 py-0.5 rounded border border-zinc-800">F{i + 1} {formatTime(t)}</span>
+        ))}
+        <span className="px-1.5 py-0.5 rounded border border-zinc-800 opacity-50" title="Not cleared">
+          F{state.currentFloor} {formatTime(stats.floorElapsed)}
+        </span>
+      </div>
+      <table className="w-full text-[10px] font-mono">
+        <tbody>
+          {entries.slice(0, 5).map((e, i) => (
+            <tr key={`${e.date}-${i}`} className={i === rank ? 'text-yellow-500' : 'opacity-50'}>
+              <td className="text-left">#{i + 1}</td>
+              <td className="text-right">${e.score.toLocaleString()}</td>
+              <td className="text-right">F{e.floor}</td>
+              <td className="text-right">{formatTime(e.time)}</td>
+              <td className="text-right">{e.seed}</td>
+              <td className="text-right">{e.date.slice(0, 10)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
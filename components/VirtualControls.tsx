@@ -1,57 +1,87 @@
-
-import React from 'react';
-import { Direction } from '../types';
+import React, { useRef, useState } from 'react';
+import { Direction, Point } from '../types';
 
 interface Props {
-  onMove: (dir: Direction) => void;
-  onStop: () => void;
+  onDirection: (dir: Direction, held: boolean) => void;
+  onStick: (v: Point) => void;
 }
 
-export const VirtualControls: React.FC<Props> = ({ onMove, onStop }) => {
+const STICK_RADIUS = 56;
+
+const PadButton: React.FC<{ dir: Direction; label: string; onDirection: Props['onDirection'] }> = ({ dir, label, onDirection }) => (
+  <button
+    onPointerDown={(e) => { e.preventDefault(); e.currentTarget.setPointerCapture(e.pointerId); onDirection(dir, true); }}
+    onPointerUp={() => onDirection(dir, false)}
+    onPointerCancel={() => onDirection(dir, false)}
+    className="w-16 h-16 bg-zinc-800 active:bg-yellow-500 active:text-black rounded-2xl flex items-center justify-center border-2 border-zinc-700 shadow-lg text-2xl font-black touch-none"
+  >
+    {label}
+  </button>
+);
+
+const Stick: React.FC<{ onStick: Props['onStick'] }> = ({ onStick }) => {
+  const baseRef = useRef<HTMLDivElement>(null);
+  const [knob, setKnob] = useState<Point>({ x: 0, y: 0 });
+
+  const update = (clientX: number, clientY: number) => {
+    const rect = baseRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    let dx = clientX - (rect.left + rect.width / 2);
+    let dy = clientY - (rect.top + rect.height / 2);
+    const len = Math.hypot(dx, dy);
+    if (len > STICK_RADIUS) {
+      dx = (dx / len) * STICK_RADIUS;
+      dy = (dy / len) * STICK_RADIUS;
+    }
+    setKnob({ x: dx, y: dy });
+    onStick({ x: dx / STICK_RADIUS, y: dy / STICK_RADIUS });
+  };
+
+  const release = () => {
+    setKnob({ x: 0, y: 0 });
+    onStick({ x: 0, y: 0 });
+  };
+
+  return (
+    <div
+      ref={baseRef}
+      onPointerDown={(e) => { e.preventDefault(); e.currentTarget.setPointerCapture(e.pointerId); update(e.clientX, e.clientY); }}
+      onPointerMove={(e) => { if (e.currentTarget.hasPointerCapture(e.pointerId)) update(e.clientX, e.clientY); }}
+      onPointerUp={release}
+      onPointerCancel={release}
+      className="relative w-36 h-36 rounded-full bg-zinc-800/60 border-2 border-zinc-700 touch-none"
+    >
+      <div
+        className="absolute left-1/2 top-1/2 w-14 h-14 -ml-7 -mt-7 rounded-full bg-yellow-500 shadow-lg"
+        style={{ transform: `translate(${knob.x}px, ${knob.y}px)` }}
+      />
+    </div>
+  );
+};
+
+export const VirtualControls: React.FC<Props> = ({ onDirection, onStick }) => {
+  const [mode, setMode] = useState<'pad' | 'stick'>('pad');
+
   return (
     <div className="flex flex-col items-center gap-2 sm:hidden select-none">
-      <h3 className="text-[10px] font-black uppercase text-zinc-500 mb-1 tracking-widest text-center w-full">Tactical Touchpad</h3>
-      <div className="grid grid-cols-3 gap-2">
-        <div />
-        <button 
-          onMouseDown={() => onMove(Direction.UP)} 
-          onMouseUp={onStop}
-          onTouchStart={(e) => { e.preventDefault(); onMove(Direction.UP); }}
-          onTouchEnd={(e) => { e.preventDefault(); onStop(); }}
-          className="w-16 h-16 bg-zinc-800 active:bg-yellow-500 active:text-black rounded-2xl flex items-center justify-center border-2 border-zinc-700 shadow-lg text-2xl font-black"
-        >
-          W
-        </button>
-        <div />
-        
-        <button 
-          onMouseDown={() => onMove(Direction.LEFT)} 
-          onMouseUp={onStop}
-          onTouchStart={(e) => { e.preventDefault(); onMove(Direction.LEFT); }}
-          onTouchEnd={(e) => { e.preventDefault(); onStop(); }}
-          className="w-16 h-16 bg-zinc-800 active:bg-yellow-500 active:text-black rounded-2xl flex items-center justify-center border-2 border-zinc-700 shadow-lg text-2xl font-black"
-        >
-          A
-        </button>
-        <button 
-          onMouseDown={() => onMove(Direction.DOWN)} 
-          onMouseUp={onStop}
-          onTouchStart={(e) => { e.preventDefault(); onMove(Direction.DOWN); }}
-          onTouchEnd={(e) => { e.preventDefault(); onStop(); }}
-          className="w-16 h-16 bg-zinc-800 active:bg-yellow-500 active:text-black rounded-2xl flex items-center justify-center border-2 border-zinc-700 shadow-lg text-2xl font-black"
-        >
-          S
-        </button>
-        <button 
-          onMouseDown={() => onMove(Direction.RIGHT)} 
-          onMouseUp={onStop}
-          onTouchStart={(e) => { e.preventDefault(); onMove(Direction.RIGHT); }}
-          onTouchEnd={(e) => { e.preventDefault(); onStop(); }}
-          className="w-16 h-16 bg-zinc-800 active:bg-yellow-500 active:text-black rounded-2xl flex items-center justify-center border-2 border-zinc-700 shadow-lg text-2xl font-black"
-        >
-          D
-        </button>
-      </div>
+      <button
+        onClick={() => setMode(mode === 'pad' ? 'stick' : 'pad')}
+        className="text-[10px] font-black uppercase text-zinc-500 mb-1 tracking-widest text-center w-full"
+      >
+        Tactical Touchpad • {mode === 'pad' ? 'D-Pad' : 'Stick'}
+      </button>
+      {mode === 'pad' ? (
+        <div className="grid grid-cols-3 gap-2">
+          <div />
+          <PadButton dir={Direction.UP} label="W" onDirection={onDirection} />
+          <div />
+          <PadButton dir={Direction.LEFT} label="A" onDirection={onDirection} />
+          <PadButton dir={Direction.DOWN} label="S" onDirection={onDirection} />
+          <PadButton dir={Direction.RIGHT} label="D" onDirection={onDirection} />
+        </div>
+      ) : (
+        <Stick onStick={onStick} />
+      )}
     </div>
   );
 };
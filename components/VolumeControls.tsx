@@ -0,0 +1,40 @@
+import React from 'react';
+import { Volume2, VolumeX } from 'lucide-react';
+import { VolumeSettings } from '../game/audio';
+
+interface Props {
+  volume: VolumeSettings;
+  onChange: (volume: VolumeSettings) => void;
+}
+
+const BUSES: { key: 'master' | 'sfx' | 'music'; label: string }[] = [
+  { key: 'master', label: 'Master' },
+  { key: 'sfx', label: 'Effects' },
+  { key: 'music', label: 'Music' },
+];
+
+export const VolumeControls: React.FC<Props> = ({ volume, onChange }) => (
+  <div className="w-full max-w-xs mt-6 space-y-2 text-[10px] uppercase font-bold">
+    {BUSES.map(({ key, label }) => (
+      <label key={key} className="flex items-center gap-3">
+        <span className="w-14 text-left opacity-50">{label}</span>
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={volume[key]}
+          onChange={(e) => onChange({ ...volume, [key]: Number(e.target.value) })}
+          className="flex-grow accent-yellow-500"
+        />
+        <span className="w-8 text-right font-mono opacity-50">{Math.round(volume[key] * 100)}</span>
+      </label>
+    ))}
+    <button
+      onClick={() => onChange({ ...volume, muted: !volume.muted })}
+      className="flex items-center gap-2 mx-auto opacity-50 hover:opacity-100 transition-opacity"
+    >
+      {volume.muted ? <VolumeX size={14} /> : <Volume2 size={14} />} {volume.muted ? 'Unmute' : 'Mute'}
+    </button>
+  </div>
+);
@@ -0,0 +1,199 @@
+import { GameState, Guard, Point, Wall } from '../types';
+import { CANVAS_HEIGHT, CANVAS_WIDTH, EXPLORE_CELL, GUARD_SIZE, PLAYER_SIZE, VIEW_DISTANCE, VIEW_HALF_ANGLE } from '../game/constants';
+import { Exploration } from '../game/camera';
+import { robbersOf } from '../game/coop';
+import { castRay, center, visibilityPolygon } from '../game/geometry';
+
+// Darkness over the floor. The robbers only see what is in their line of
+// sight, and only clearly where something lights it: their own glow, the
+// ceiling lamps and the guards' flashlights. In co-op either robber's sight
+// counts. Explored parts of the floor stay dimly drawn from memory. The dark
+// is built on one offscreen canvas by cutting the lit areas out of it, then
+// laid over the scene in one go.
+
+interface LightingPalette {
+  shadow: string; // colour of the dark
+  memory: number; // how much of the dark lifts over explored cells, 0..1
+  ambient: number; // how much more lifts over unlit places in line of sight
+  glow: string; // tint around lamps
+}
+
+export const LIGHTING_PALETTES: Record<'dark' | 'light', LightingPalette> = {
+  dark: { shadow: '#09090b', memory: 0.35, ambient: 0.45, glow: 'rgba(253, 224, 71, 0.1)' },
+  light: { shadow: '#334155', memory: 0.45, ambient: 0.55, glow: 'rgba(255, 255, 255, 0.2)' },
+};
+
+const SIGHT_RANGE = Math.hypot(CANVAS_WIDTH, CANVAS_HEIGHT); // from anywhere on screen to any corner
+const PLAYER_GLOW = 130;
+export const LAMP_RADIUS = 160;
+const FLASHLIGHT_STRENGTH = 0.8;
+const CONE_RAYS = 24;
+
+/** A guard's view cone, clipped by walls: the eye followed by the arc. */
+export const viewCone = (g: Guard, walls: Wall[]): Point[] => {
+  const eye = center(g.pos, GUARD_SIZE);
+  const points = [eye];
+  for (let i = 0; i <= CONE_RAYS; i++) {
+    const angle = g.facing - VIEW_HALF_ANGLE + (2 * VIEW_HALF_ANGLE * i) / CONE_RAYS;
+    const dist = castRay(eye, angle, VIEW_DISTANCE, walls);
+    points.push({ x: eye.x + Math.cos(angle) * dist, y: eye.y + Math.sin(angle) * dist });
+  }
+  return points;
+};
+
+export const tracePolygon = (ctx: CanvasRenderingContext2D, points: Point[]) => tracePolygons(ctx, [points]);
+
+/**
+ * Several polygons as one path. Visibility polygons all wind the same way, so
+ * filling or clipping with it covers their union.
+ */
+export const tracePolygons = (ctx: CanvasRenderingContext2D, polygons: Point[][]) => {
+  ctx.beginPath();
+  polygons.forEach(points => {
+    points.forEach((p, i) => (i ? ctx.lineTo(p.x, p.y) : ctx.moveTo(p.x, p.y)));
+    ctx.closePath();
+  });
+};
+
+// Full strength at `pos`, fading to nothing at `radius`. With destination-out
+// the "colour" only matters for its alpha.
+const falloff = (ctx: CanvasRenderingContext2D, pos: Point, radius: number, strength: number) => {
+  const gradient = ctx.createRadialGradient(pos.x, pos.y, 0, pos.x, pos.y, radius);
+  gradient.addColorStop(0, `rgba(0, 0, 0, ${strength})`);
+  gradient.addColorStop(1, 'rgba(0, 0, 0, 0)');
+  return gradient;
+};
+
+const onScreen = (pos: Point, radius: number, camera: Point) =>
+  pos.x + radius > camera.x && pos.x - radius < camera.x + CANVAS_WIDTH &&
+  pos.y + radius > camera.y && pos.y - radius < camera.y + CANVAS_HEIGHT;
+
+type Sight = { walls: Wall[]; x: number; y: number; view: Point; polygon: Point[] };
+
+/**
+ * Keeps the offscreen canvas and the visibility polygons between frames: each
+ * robber's only changes when they move, the lamps' only with the floor.
+ */
+export const createLighting = () => {
+  let canvas: HTMLCanvasElement | null = null;
+  const sights: (Sight | null)[] = [null, null]; // by RobberIndex
+  let lamps: { walls: Wall[]; polygons: Point[][] } | null = null;
+
+  /**
+   * Everything the robbers at `camera`'s view have a line of sight to, in
+   * world coordinates, one polygon per robber. A ray leaves the view only
+   * once, so walls off screen can't block any part of it that is drawn.
+   */
+  const sightOf = (state: GameState, camera: Point) => robbersOf(state).map(r => {
+    const eye = center(r.pos, PLAYER_SIZE);
+    const x = Math.round(eye.x);
+    const y = Math.round(eye.y);
+    const view = { x: Math.round(camera.x), y: Math.round(camera.y) };
+    let sight = sights[r.index];
+    if (!sight || sight.walls !== state.walls || sight.x !== x || sight.y !== y || sight.view.x !== view.x || sight.view.y !== view.y) {
+      const visible = state.walls.filter(w => onScreen({ x: w.x + w.w / 2, y: w.y + w.h / 2 }, Math.max(w.w, w.h) / 2, view));
+      sight = sights[r.index] = { walls: state.walls, x, y, view, polygon: visibilityPolygon({ x, y }, SIGHT_RANGE, visible) };
+    }
+    return sight.polygon;
+  });
+
+  const lampPolygons = (state: GameState) => {
+    if (!lamps || lamps.walls !== state.walls) {
+      lamps = { walls: state.walls, polygons: state.lamps.map(l => visibilityPolygon(l, LAMP_RADIUS, state.walls)) };
+    }
+    return lamps.polygons;
+  };
+
+  /** Lays the dark over a scene drawn from `camera`; expects the context already translated to world space. */
+  const draw = (ctx: CanvasRenderingContext2D, state: GameState, camera: Point, exploration: Exploration, isDark: boolean) => {
+    const palette = LIGHTING_PALETTES[isDark ? 'dark' : 'light'];
+    const origin = { x: Math.round(camera.x), y: Math.round(camera.y) };
+    // Matched to the target's pixel density so the shadow edges stay crisp.
+    const ratio = ctx.getTransform().a;
+    canvas ??= document.createElement('canvas');
+    if (canvas.width !== Math.round(CANVAS_WIDTH * ratio)) {
+      canvas.width = Math.round(CANVAS_WIDTH * ratio);
+      canvas.height = Math.round(CANVAS_HEIGHT * ratio);
+    }
+    const fog = canvas.getContext('2d');
+    if (!fog) return;
+
+    fog.setTransform(ratio, 0, 0, ratio, 0, 0);
+    fog.globalCompositeOperation = 'source-over';
+    fog.fillStyle = palette.shadow;
+    fog.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    fog.save();
+    fog.translate(-origin.x, -origin.y);
+    fog.globalCompositeOperation = 'destination-out';
+
+    // Remembered cells, only the ones on screen.
+    fog.fillStyle = `rgba(0, 0, 0, ${palette.memory})`;
+    fog.beginPath();
+    const left = Math.max(0, Math.floor(origin.x / EXPLORE_CELL));
+    const top = Math.max(0, Math.floor(origin.y / EXPLORE_CELL));
+    const right = Math.min(exploration.cols - 1, Math.floor((origin.x + CANVAS_WIDTH) / EXPLORE_CELL));
+    const bottom = Math.min(exploration.rows - 1, Math.floor((origin.y + CANVAS_HEIGHT) / EXPLORE_CELL));
+    for (let cy = top; cy <= bottom; cy++) {
+      for (let cx = left; cx <= right; cx++) {
+        if (exploration.isExplored(cx, cy)) fog.rect(cx * EXPLORE_CELL, cy * EXPLORE_CELL, EXPLORE_CELL, EXPLORE_CELL);
+      }
+    }
+    fog.fill();
+
+    // Everything else is lit only where the robbers can see it.
+    const polygons = sightOf(state, camera);
+    tracePolygons(fog, polygons);
+    fog.clip();
+    fog.fillStyle = `rgba(0, 0, 0, ${palette.ambient})`;
+    fog.fillRect(origin.x, origin.y, CANVAS_WIDTH, CANVAS_HEIGHT);
+
+    robbersOf(state).forEach(r => {
+      const eye = center(r.pos, PLAYER_SIZE);
+      fog.fillStyle = falloff(fog, eye, PLAYER_GLOW, 1);
+      fog.fillRect(eye.x - PLAYER_GLOW, eye.y - PLAYER_GLOW, PLAYER_GLOW * 2, PLAYER_GLOW * 2);
+    });
+
+    const lit = lampPolygons(state);
+    state.lamps.forEach((lamp, i) => {
+      if (!onScreen(lamp, LAMP_RADIUS, origin)) return;
+      fog.fillStyle = falloff(fog, lamp, LAMP_RADIUS, 0.95);
+      tracePolygon(fog, lit[i]);
+      fog.fill();
+    });
+
+    state.guards.forEach(g => {
+      if (g.stunTimer > 0 || !onScreen(g.pos, VIEW_DISTANCE, origin)) return;
+      fog.fillStyle = falloff(fog, center(g.pos, GUARD_SIZE), VIEW_DISTANCE, FLASHLIGHT_STRENGTH);
+      tracePolygon(fog, viewCone(g, state.walls));
+      fog.fill();
+    });
+    fog.restore();
+
+    ctx.drawImage(canvas, origin.x, origin.y, CANVAS_WIDTH, CANVAS_HEIGHT);
+
+    // A warm tint where the lamps reach, also only in line of sight.
+    ctx.save();
+    tracePolygons(ctx, polygons);
+    ctx.clip();
+    state.lamps.forEach((lamp, i) => {
+      if (!onScreen(lamp, LAMP_RADIUS, origin)) return;
+      const gradient = ctx.createRadialGradient(lamp.x, lamp.y, 0, lamp.x, lamp.y, LAMP_RADIUS);
+      gradient.addColorStop(0, palette.glow);
+      gradient.addColorStop(1, 'rgba(0, 0, 0, 0)');
+      ctx.fillStyle = gradient;
+      tracePolygon(ctx, lit[i]);
+      ctx.fill();
+    });
+    ctx.restore();
+  };
+
+  return { sightOf, draw };
+};
+
+export type Lighting = ReturnType<typeof createLighting>;
+
+/** What drawScene needs to darken the floor: the lighting cache and what has been explored so far. */
+export interface FogOfWar {
+  lighting: Lighting;
+  exploration: Exploration;
+}
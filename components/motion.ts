@@ -0,0 +1,142 @@
+import { GameState, Point } from '../types';
+import { PLAYER_SIZE } from '../game/constants';
+import { robberPos, teamCenter } from '../game/coop';
+import { center } from '../game/geometry';
+import { WALK_FRAMES } from './sprites';
+
+// View-only animation: walk cycles, pickup and door tweens, and particles.
+// It works out what happened by comparing each rendered state with the one
+// before rather than listening to events, so live play and replays (seeking
+// included) animate the same way. Nothing here feeds back into the simulation.
+
+const STRIDE = 9; // pixels walked per walk frame
+const PICKUP_TWEEN = 0.35; // seconds a collected pickup takes to pop
+const DOOR_TWEEN = 0.6; // seconds the door takes to slide open
+const MAX_PARTICLES = 300;
+
+export const easeOutCubic = (t: number) => 1 - (1 - t) ** 3;
+export const easeOutBack = (t: number) => 1 + 2.70158 * (t - 1) ** 3 + 1.70158 * (t - 1) ** 2;
+
+export interface Particle {
+  pos: Point;
+  vel: Point; // pixels per second
+  color: string;
+  size: number;
+  life: number; // seconds left
+  duration: number;
+  text?: string; // floats up instead of being a dot
+}
+
+export interface PickupTween {
+  pos: Point;
+  item: 'cash' | GameState['fragments'][number]['kind'];
+  start: number;
+}
+
+export const createMotion = () => {
+  let last: GameState | null = null;
+  let lastTime = 0;
+  let time = 0; // seconds, only moves while frames are drawn
+  const walked = new Map<string, { pos: Point; dist: number }>();
+  let pickups: PickupTween[] = [];
+  let particles: Particle[] = [];
+  let doorOpenedAt: number | null = null;
+
+  const burst = (at: Point, count: number, colors: string[], speed: number, duration: number) => {
+    for (let i = 0; i < count && particles.length < MAX_PARTICLES; i++) {
+      const angle = (Math.PI * 2 * i) / count + Math.random() * 0.5;
+      const v = speed * (0.5 + Math.random() * 0.5);
+      particles.push({
+        pos: { ...at },
+        vel: { x: Math.cos(angle) * v, y: Math.sin(angle) * v },
+        color: colors[i % colors.length],
+        size: 2 + Math.random() * 2,
+        life: duration,
+        duration,
+      });
+    }
+  };
+
+  const floatText = (at: Point, text: string, color: string) => {
+    particles.push({ pos: { ...at }, vel: { x: 0, y: -30 }, color, size: 12, life: 1, duration: 1, text });
+  };
+
+  // Pickups collected, the door unlocking and robbers being tackled or cuffed, since `prev`.
+  const diff = (prev: GameState, state: GameState) => {
+    state.money.forEach((m, i) => {
+      if (!m.collected || prev.money[i]?.collected !== false) return;
+      pickups.push({ pos: m.pos, item: 'cash', start: time });
+      burst(m.pos, 12, ['#22c55e', '#86efac', '#facc15'], 90, 0.6);
+      floatText(m.pos, `+$${m.value}`, '#22c55e');
+    });
+    state.fragments.forEach((f, i) => {
+      if (!f.collected || prev.fragments[i]?.collected !== false) return;
+      pickups.push({ pos: f.pos, item: f.kind, start: time });
+      burst(f.pos, 10, ['#fde047', '#ffffff'], 70, 0.5);
+    });
+    if (state.foundPassword && !prev.foundPassword) doorOpenedAt = time;
+    if (state.downed && !prev.downed) {
+      burst(center(robberPos(state, state.downed.robber), PLAYER_SIZE), 12, ['#ef4444', '#ffffff'], 90, 0.5);
+    }
+    if (state.busted && !prev.busted) burst(teamCenter(state), 24, ['#ef4444', '#3b82f6', '#ffffff'], 140, 0.8);
+  };
+
+  return {
+    /** Advances the animation to wall-clock `now` (ms) with the state about to be drawn. */
+    update: (state: GameState, now: number) => {
+      const dt = lastTime ? Math.min(0.1, (now - lastTime) / 1000) : 0;
+      lastTime = now;
+      time += dt;
+
+      const sameFloor = !!last && last.walls === state.walls;
+      if (!sameFloor) {
+        walked.clear();
+        pickups = [];
+        particles = [];
+        doorOpenedAt = state.foundPassword ? time - DOOR_TWEEN : null;
+      } else if (last !== state) {
+        diff(last!, state);
+      }
+      last = state;
+
+      pickups = pickups.filter(p => time - p.start < PICKUP_TWEEN);
+      particles = particles.filter(p => (p.life -= dt) > 0);
+      particles.forEach(p => {
+        p.pos = { x: p.pos.x + p.vel.x * dt, y: p.pos.y + p.vel.y * dt };
+        if (!p.text) p.vel = { x: p.vel.x * 0.92, y: p.vel.y * 0.92 };
+      });
+    },
+
+    /** Walk frame for whoever `id` is, now at `pos`; the standing frame when they haven't moved. */
+    walkFrame: (id: string, pos: Point) => {
+      const entry = walked.get(id);
+      if (!entry) {
+        walked.set(id, { pos, dist: 0 });
+        return 0;
+      }
+      const step = Math.hypot(pos.x - entry.pos.x, pos.y - entry.pos.y);
+      if (step < 0.01) return 0;
+      entry.dist += step;
+      entry.pos = pos;
+      return Math.floor(entry.dist / STRIDE) % WALK_FRAMES;
+    },
+
+    /** Seconds since the animation started; drives idle bobbing and pulses. */
+    time: () => time,
+
+    /** How far the door's slide-open has got, 0 (shut) to 1 (open). */
+    doorOpen: () => (doorOpenedAt === null ? 0 : easeOutCubic(Math.min(1, (time - doorOpenedAt) / DOOR_TWEEN))),
+
+    /** Collected pickups still popping, each with its progress from 0 to 1. */
+    pickups: () => pickups.map(p => ({ ...p, t: (time - p.start) / PICKUP_TWEEN })),
+
+    particles: () => particles,
+
+    /** Forgets everything, e.g. after seeking in a replay. */
+    reset: () => {
+      last = null;
+    },
+  };
+};
+
+export type Motion = ReturnType<typeof createMotion>;
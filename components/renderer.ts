@@ -0,0 +1,490 @@
+import { AlarmPanel, AreaEffect, Downed, GameState, Guard, GuardMode, LaserGrid, Noise, NoiseSource, Point, SecurityCamera, Vault } from '../types';
+import {
+  BUSTED_DURATION, CAMERA_HALF_ANGLE, CAMERA_RANGE, CANVAS_HEIGHT, CANVAS_WIDTH, DOWNED_TIME, EXPLORE_CELL, GUARD_SIZE, NOISE_RING_TIME,
+  PLAYER_SIZE, REVIVE_TIME, VAULT_HACK_TIME,
+} from '../game/constants';
+import { Exploration } from '../game/camera';
+import { Robber, robbersOf, teamCenter } from '../game/coop';
+import { castRay, center } from '../game/geometry';
+import { cameraAngle, laserActive } from '../game/security';
+import { FogOfWar, tracePolygon, tracePolygons, viewCone } from './lighting';
+import { easeOutBack, Motion, Particle } from './motion';
+import { Character, drawCharacter, drawItem, facingFor } from './sprites';
+
+const CONE_RAYS = 24;
+const CONE_COLORS: Record<GuardMode, string> = {
+  patrol: 'rgba(250, 204, 21, 0.12)',
+  return: 'rgba(250, 204, 21, 0.12)',
+  suspicious: 'rgba(249, 115, 22, 0.25)',
+  search: 'rgba(249, 115, 22, 0.25)',
+  alert: 'rgba(239, 68, 68, 0.3)',
+};
+
+const NOISE_COLORS: Record<NoiseSource, string> = {
+  sprint: '249, 115, 22',
+  pickup: '34, 197, 94',
+  wrongCode: '239, 68, 68',
+  bump: '161, 161, 170',
+  distraction: '56, 189, 248',
+};
+
+// Rings race out to how far the noise carries across open floor, fading as they go.
+const drawNoise = (ctx: CanvasRenderingContext2D, n: Noise) => {
+  const t = n.age / NOISE_RING_TIME;
+  ctx.strokeStyle = `rgba(${NOISE_COLORS[n.source]}, ${0.6 * (1 - t)})`;
+  ctx.lineWidth = 2;
+  ctx.setLineDash([6, 4]);
+  ctx.beginPath();
+  ctx.arc(n.pos.x, n.pos.y, n.radius * Math.min(1, t * 1.5), 0, Math.PI * 2);
+  ctx.stroke();
+  ctx.setLineDash([]);
+  ctx.lineWidth = 1;
+};
+
+const EMP_RING = 400; // how far the EMP pulse is drawn expanding
+
+const drawEffect = (ctx: CanvasRenderingContext2D, e: AreaEffect) => {
+  const t = 1 - e.timeLeft / e.duration; // 0 → 1 over the effect's life
+  ctx.beginPath();
+  if (e.kind === 'smoke') {
+    // Billows out quickly, then thins away.
+    ctx.fillStyle = `rgba(161, 161, 170, ${0.7 * Math.min(1, e.timeLeft)})`;
+    ctx.arc(e.pos.x, e.pos.y, e.radius * Math.min(1, t * 6), 0, Math.PI * 2);
+    ctx.fill();
+    return;
+  }
+  ctx.lineWidth = 2;
+  ctx.strokeStyle = e.kind === 'emp' ? `rgba(56, 189, 248, ${1 - t})` : `rgba(250, 204, 21, ${1 - t})`;
+  ctx.arc(e.pos.x, e.pos.y, (e.kind === 'emp' ? EMP_RING : e.radius) * t, 0, Math.PI * 2);
+  ctx.stroke();
+  ctx.lineWidth = 1;
+};
+
+const drawVault = (ctx: CanvasRenderingContext2D, v: Vault) => {
+  const { x, y, w, h } = v.rect;
+  ctx.fillStyle = v.opened ? '#1e293b' : '#64748b';
+  ctx.fillRect(x, y, w, h);
+  ctx.strokeStyle = '#cbd5e1';
+  ctx.strokeRect(x + 3, y + 3, w - 6, h - 6);
+  ctx.fillStyle = v.opened ? '#eab308' : '#cbd5e1';
+  ctx.beginPath();
+  ctx.arc(x + w / 2, y + h / 2, 7, 0, Math.PI * 2);
+  ctx.fill();
+  if (!v.opened && v.progress > 0) {
+    ctx.fillStyle = '#0f172a';
+    ctx.fillRect(x, y - 8, w, 4);
+    ctx.fillStyle = '#22c55e';
+    ctx.fillRect(x, y - 8, w * (v.progress / VAULT_HACK_TIME), 4);
+  }
+};
+
+// Beams run along the gap's long side, so walking through it crosses them.
+const drawLaser = (ctx: CanvasRenderingContext2D, l: LaserGrid, t: number) => {
+  const { x, y, w, h } = l.rect;
+  const vertical = h > w;
+  ctx.fillStyle = '#52525b';
+  if (vertical) {
+    ctx.fillRect(x, y - 3, w, 3);
+    ctx.fillRect(x, y + h, w, 3);
+  } else {
+    ctx.fillRect(x - 3, y, 3, h);
+    ctx.fillRect(x + w, y, 3, h);
+  }
+  if (!laserActive(l, t)) return;
+  ctx.strokeStyle = 'rgba(239, 68, 68, 0.9)';
+  ctx.beginPath();
+  for (const f of [0.2, 0.5, 0.8]) {
+    if (vertical) {
+      ctx.moveTo(x + w * f, y);
+      ctx.lineTo(x + w * f, y + h);
+    } else {
+      ctx.moveTo(x, y + h * f);
+      ctx.lineTo(x + w, y + h * f);
+    }
+  }
+  ctx.stroke();
+};
+
+const drawAlarmPanel = (ctx: CanvasRenderingContext2D, p: AlarmPanel, t: number) => {
+  ctx.fillStyle = '#3f3f46';
+  ctx.fillRect(p.pos.x - 6, p.pos.y - 8, 12, 16);
+  const lit = p.status === 'triggered' || (p.status === 'armed' && Math.floor(t * 2) % 2 === 0);
+  ctx.fillStyle = p.status === 'cut' ? '#71717a' : lit ? '#ef4444' : '#7f1d1d';
+  ctx.fillRect(p.pos.x - 3, p.pos.y - 5, 6, 6);
+};
+
+const drawCamera = (ctx: CanvasRenderingContext2D, cam: SecurityCamera, t: number, walls: GameState['walls']) => {
+  const angle = cameraAngle(cam, t);
+  if (cam.disabledTimer <= 0) {
+    // Blue while idle, shading to red as it makes the robber out.
+    ctx.fillStyle = `rgba(${Math.round(56 + 183 * cam.suspicion)}, ${Math.round(189 - 121 * cam.suspicion)}, 248, 0.15)`;
+    ctx.beginPath();
+    ctx.moveTo(cam.pos.x, cam.pos.y);
+    for (let i = 0; i <= CONE_RAYS / 2; i++) {
+      const a = angle - CAMERA_HALF_ANGLE + (2 * CAMERA_HALF_ANGLE * i) / (CONE_RAYS / 2);
+      const dist = castRay(cam.pos, a, CAMERA_RANGE, walls);
+      ctx.lineTo(cam.pos.x + Math.cos(a) * dist, cam.pos.y + Math.sin(a) * dist);
+    }
+    ctx.closePath();
+    ctx.fill();
+  }
+  ctx.save();
+  ctx.translate(cam.pos.x, cam.pos.y);
+  ctx.rotate(angle);
+  ctx.fillStyle = cam.disabledTimer > 0 ? '#52525b' : '#18181b';
+  ctx.fillRect(-5, -4, 12, 8);
+  ctx.fillStyle = cam.disabledTimer > 0 ? '#52525b' : '#ef4444';
+  ctx.fillRect(5, -1.5, 3, 3);
+  ctx.restore();
+};
+
+const lerpPoint = (a: Point, b: Point, t: number): Point => ({
+  x: a.x + (b.x - a.x) * t,
+  y: a.y + (b.y - a.y) * t,
+});
+
+const lerpAngle = (a: number, b: number, t: number) => {
+  let d = (b - a) % (Math.PI * 2);
+  if (d > Math.PI) d -= Math.PI * 2;
+  if (d < -Math.PI) d += Math.PI * 2;
+  return a + d * t;
+};
+
+/**
+ * Blends moving actors between the last two simulation ticks. `alpha` is how
+ * far the current frame sits between them. Anything that is not a continuation
+ * of the same floor is drawn as-is.
+ */
+export const interpolateState = (prev: GameState, current: GameState, alpha: number): GameState => {
+  if (prev === current || prev.walls !== current.walls || alpha >= 1) return current;
+  return {
+    ...current,
+    playerPos: lerpPoint(prev.playerPos, current.playerPos, alpha),
+    partner: current.partner && prev.partner
+      ? { ...current.partner, pos: lerpPoint(prev.partner.pos, current.partner.pos, alpha) }
+      : current.partner,
+    guards: current.guards.map((g, i): Guard => {
+      const before = prev.guards[i];
+      if (!before || before.id !== g.id) return g;
+      return { ...g, pos: lerpPoint(before.pos, g.pos, alpha), facing: lerpAngle(before.facing, g.facing, alpha) };
+    }),
+  };
+};
+
+/** Where a ghost run's robber is, if it is on the same floor as `state`. */
+export const ghostPosition = (ghost: { getState: () => GameState } | null, state: GameState): Point | null => {
+  const ghostState = ghost?.getState();
+  return ghostState && ghostState.currentFloor === state.currentFloor ? ghostState.playerPos : null;
+};
+
+const drawDoor = (ctx: CanvasRenderingContext2D, state: GameState, open: number, t: number) => {
+  const { x, y } = state.doorPos;
+  ctx.fillStyle = '#27272a';
+  ctx.fillRect(x, y, 30, 30);
+  ctx.fillStyle = '#052e16';
+  ctx.fillRect(x + 3, y + 3, 24, 27);
+  // The panel slides aside once the code is cracked.
+  ctx.fillStyle = state.foundPassword ? '#22c55e' : '#eab308';
+  ctx.fillRect(x + 3, y + 3, 24 * (1 - 0.85 * open), 27);
+  if (state.foundPassword) {
+    ctx.fillStyle = `rgba(34, 197, 94, ${0.25 * open})`;
+    ctx.fillRect(x - 4, y - 4, 38, 38);
+  } else {
+    // Padlock, with a slow pulse to draw the eye.
+    ctx.strokeStyle = `rgba(234, 179, 8, ${0.35 + 0.3 * Math.sin(t * 4)})`;
+    ctx.lineWidth = 2;
+    ctx.strokeRect(x - 3, y - 3, 36, 36);
+    ctx.strokeStyle = '#27272a';
+    ctx.beginPath();
+    ctx.arc(x + 15, y + 13, 4, Math.PI, 0);
+    ctx.stroke();
+    ctx.lineWidth = 1;
+    ctx.fillStyle = '#27272a';
+    ctx.fillRect(x + 10, y + 13, 10, 8);
+  }
+  ctx.fillStyle = '#fff';
+  ctx.font = '10px bold sans-serif';
+  ctx.fillText(state.foundPassword ? 'EXIT' : 'LOCK', x, y - 5);
+};
+
+const drawParticle = (ctx: CanvasRenderingContext2D, p: Particle) => {
+  ctx.globalAlpha = Math.max(0, p.life / p.duration);
+  ctx.fillStyle = p.color;
+  if (p.text) {
+    ctx.font = `bold ${p.size}px sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.fillText(p.text, p.pos.x, p.pos.y);
+    ctx.textAlign = 'start';
+  } else {
+    ctx.fillRect(p.pos.x - p.size / 2, p.pos.y - p.size / 2, p.size, p.size);
+  }
+  ctx.globalAlpha = 1;
+};
+
+const drawRobber = (ctx: CanvasRenderingContext2D, r: Robber, who: Character, frame: number, alpha: number) => {
+  if (r.posture === 'sprint' && frame !== 0) {
+    const back = r.facing + Math.PI;
+    const c = center(r.pos, PLAYER_SIZE);
+    ctx.strokeStyle = 'rgba(249, 115, 22, 0.7)';
+    ctx.lineWidth = 2;
+    [-5, 0, 5].forEach(offset => {
+      const sx = c.x + Math.cos(back) * 12 - Math.sin(back) * offset;
+      const sy = c.y + Math.sin(back) * 12 + Math.cos(back) * offset;
+      ctx.beginPath();
+      ctx.moveTo(sx, sy);
+      ctx.lineTo(sx + Math.cos(back) * 8, sy + Math.sin(back) * 8);
+      ctx.stroke();
+    });
+    ctx.lineWidth = 1;
+  }
+  ctx.globalAlpha = r.posture === 'crouch' ? alpha * 0.55 : alpha;
+  const height = r.posture === 'crouch' ? PLAYER_SIZE * 0.75 : PLAYER_SIZE;
+  drawCharacter(ctx, who, facingFor(r.facing), frame, r.pos.x, r.pos.y, PLAYER_SIZE, height);
+  ctx.globalAlpha = 1;
+};
+
+// Flat on the floor, ringed by the time left before the guards come back
+// (red) and how far along the partner is with reviving them (green).
+const drawDowned = (ctx: CanvasRenderingContext2D, pos: Point, who: Character, downed: Downed) => {
+  const c = center(pos, PLAYER_SIZE);
+  ctx.save();
+  ctx.translate(c.x, c.y);
+  ctx.rotate(Math.PI / 2);
+  ctx.globalAlpha = 0.8;
+  drawCharacter(ctx, who, 'down', 0, -PLAYER_SIZE / 2, -PLAYER_SIZE / 2, PLAYER_SIZE);
+  ctx.restore();
+
+  const ring = (radius: number, share: number, color: string) => {
+    ctx.strokeStyle = color;
+    ctx.beginPath();
+    ctx.arc(c.x, c.y, radius, -Math.PI / 2, -Math.PI / 2 + Math.PI * 2 * share);
+    ctx.stroke();
+  };
+  ctx.lineWidth = 3;
+  ring(18, downed.timeLeft / DOWNED_TIME, '#ef4444');
+  if (downed.revive > 0) ring(23, downed.revive / REVIVE_TIME, '#22c55e');
+  ctx.lineWidth = 1;
+  ctx.fillStyle = '#ef4444';
+  ctx.font = 'bold 11px sans-serif';
+  ctx.textAlign = 'center';
+  ctx.fillText(`HELP! ${Math.ceil(downed.timeLeft)}`, c.x, c.y - 26);
+  ctx.textAlign = 'start';
+};
+
+/** Idle bob for pickups, out of step with each other so the floor doesn't pulse in unison. */
+const bob = (pos: Point, t: number) => Math.sin(t * 3 + pos.x * 0.05 + pos.y * 0.03) * 1.5;
+
+const ITEM_SIZE = 16;
+
+export interface SceneOptions {
+  fog?: FogOfWar | null; // darken everything the robbers can't see
+  motion?: Motion | null; // walk cycles, tweens and particles; everything stands still without it
+}
+
+/**
+ * Sizes the canvas' backing store for the screen's pixel density and scales
+ * the context to match, so drawing stays in CANVAS_WIDTH x CANVAS_HEIGHT
+ * units. Call it before every frame: it only reallocates when the ratio
+ * changes, e.g. when the window moves to another screen or the page is zoomed.
+ */
+export const fitCanvas = (ctx: CanvasRenderingContext2D) => {
+  const ratio = window.devicePixelRatio || 1;
+  const width = Math.round(CANVAS_WIDTH * ratio);
+  const height = Math.round(CANVAS_HEIGHT * ratio);
+  if (ctx.canvas.width !== width || ctx.canvas.height !== height) {
+    ctx.canvas.width = width;
+    ctx.canvas.height = height;
+  }
+  ctx.setTransform(width / CANVAS_WIDTH, 0, 0, height / CANVAS_HEIGHT, 0, 0);
+};
+
+/**
+ * Draws the floor as seen from `camera`, the world position of the canvas'
+ * top-left corner. With `fog`, only what the robber can see is shown clearly.
+ */
+export const drawScene = (
+  ctx: CanvasRenderingContext2D,
+  state: GameState,
+  isDark: boolean,
+  ghost: Point | null = null,
+  camera: Point = { x: 0, y: 0 },
+  { fog = null, motion = null }: SceneOptions = {},
+) => {
+  ctx.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+  ctx.save();
+  ctx.translate(-Math.round(camera.x), -Math.round(camera.y));
+  const now = motion ? motion.time() : 0;
+  const walkFrame = (id: string, pos: Point) => (motion ? motion.walkFrame(id, pos) : 0);
+
+  // Draw Walls
+  ctx.fillStyle = isDark ? '#3f3f46' : '#d4d4d8';
+  state.walls.forEach(w => ctx.fillRect(w.x, w.y, w.w, w.h));
+
+  // Lamp fittings
+  ctx.fillStyle = isDark ? '#fde68a' : '#a16207';
+  state.lamps.forEach(l => ctx.fillRect(l.x - 3, l.y - 3, 6, 6));
+
+  // Security systems
+  const t = state.stats.floorElapsed;
+  state.vaults.forEach(v => drawVault(ctx, v));
+  state.lasers.forEach(l => drawLaser(ctx, l, t));
+  state.alarmPanels.forEach(p => drawAlarmPanel(ctx, p, t));
+
+  // Draw Money and Password Fragments, bobbing until picked up, then popping
+  state.money.forEach(m => {
+    if (!m.collected) drawItem(ctx, 'cash', m.pos.x, m.pos.y + bob(m.pos, now), ITEM_SIZE);
+  });
+  state.fragments.forEach(f => {
+    if (!f.collected) drawItem(ctx, f.kind, f.pos.x, f.pos.y + bob(f.pos, now), ITEM_SIZE);
+  });
+  motion?.pickups().forEach(p => {
+    ctx.globalAlpha = 1 - p.t;
+    drawItem(ctx, p.item, p.pos.x, p.pos.y - 12 * p.t, ITEM_SIZE * (1 + 0.6 * easeOutBack(p.t)));
+    ctx.globalAlpha = 1;
+  });
+
+  // Draw Terminal/Door
+  drawDoor(ctx, state, motion ? motion.doorOpen() : state.foundPassword ? 1 : 0, now);
+
+  // Draw Guards with their view cones, clipped by walls. In the dark, only the
+  // parts in the robber's line of sight show.
+  if (fog) {
+    ctx.save();
+    tracePolygons(ctx, fog.lighting.sightOf(state, camera));
+    ctx.clip();
+  }
+  state.guards.forEach(g => {
+    const eye = center(g.pos, GUARD_SIZE);
+    const frame = walkFrame(g.id, g.pos);
+    if (g.stunTimer > 0) {
+      // Stunned guards see nothing, so they get no cone.
+      ctx.globalAlpha = 0.5;
+      drawCharacter(ctx, 'guard', facingFor(g.facing), 0, g.pos.x, g.pos.y, GUARD_SIZE);
+      ctx.globalAlpha = 1;
+      ctx.fillStyle = '#38bdf8';
+      ctx.font = 'bold 10px sans-serif';
+      ctx.fillText('zZ', eye.x - 6, g.pos.y - 4);
+      return;
+    }
+    ctx.fillStyle = CONE_COLORS[g.mode];
+    tracePolygon(ctx, viewCone(g, state.walls));
+    ctx.fill();
+
+    drawCharacter(ctx, 'guard', facingFor(g.facing), frame, g.pos.x, g.pos.y, GUARD_SIZE);
+    if (g.mode !== 'patrol' && g.mode !== 'return') {
+      ctx.fillStyle = g.mode === 'alert' ? '#ef4444' : '#f97316';
+      ctx.font = 'bold 16px sans-serif';
+      ctx.fillText(g.mode === 'alert' ? '!' : '?', eye.x - 4, g.pos.y - 6);
+    }
+  });
+  if (fog) ctx.restore();
+
+  // Cameras above the guards, being up on the walls
+  state.cameras.forEach(cam => drawCamera(ctx, cam, t, state.walls));
+
+  // Distractions, smoke and EMP pulses
+  state.effects.forEach(e => drawEffect(ctx, e));
+
+  if (fog) fog.lighting.draw(ctx, state, camera, fog.exploration, isDark);
+
+  // Noise rings on top of the dark, so the robber learns how far they carry
+  state.noises.forEach(n => drawNoise(ctx, n));
+
+  // Draw Ghost of the best run on this seed
+  if (ghost) {
+    ctx.globalAlpha = 0.3;
+    drawCharacter(ctx, 'robber', 'down', 0, ghost.x, ghost.y, PLAYER_SIZE);
+    ctx.globalAlpha = 1;
+  }
+
+  // Draw the robbers, ducking while crouched, trailing speed lines while
+  // sprinting, blinking while being cuffed and lying flat when downed
+  const capture = state.busted ? 1 - state.busted.timeLeft / BUSTED_DURATION : 0;
+  robbersOf(state).forEach(r => {
+    const who: Character = r.index === 0 ? 'robber' : 'partner';
+    if (state.downed?.robber === r.index) drawDowned(ctx, r.pos, who, state.downed);
+    else drawRobber(ctx, r, who, walkFrame(who, r.pos), state.busted ? (Math.floor(capture * 12) % 2 ? 0.3 : 1) : 1);
+  });
+
+  if (state.busted) {
+    // Siren lights closing in on the robber, then the verdict.
+    const c = teamCenter(state);
+    const radius = 60 * (1 - capture) + PLAYER_SIZE;
+    ctx.lineWidth = 3;
+    [0, Math.PI].forEach((offset, i) => {
+      ctx.strokeStyle = (Math.floor(capture * 8) + i) % 2 ? '#ef4444' : '#3b82f6';
+      ctx.beginPath();
+      ctx.arc(c.x, c.y, radius, capture * 10 + offset, capture * 10 + offset + Math.PI * 0.8);
+      ctx.stroke();
+    });
+    ctx.lineWidth = 1;
+    ctx.fillStyle = '#ef4444';
+    ctx.font = 'bold 16px sans-serif';
+    ctx.textAlign = 'center';
+    ctx.fillText('BUSTED!', c.x, c.y - radius - 6 - capture * 10);
+    ctx.textAlign = 'start';
+  }
+
+  // Cash bursts, floating amounts and capture sparks
+  motion?.particles().forEach(p => drawParticle(ctx, p));
+  ctx.restore();
+
+  // The whole screen pulses red while the alarm rings.
+  if (state.alarmTimer > 0) {
+    ctx.strokeStyle = `rgba(239, 68, 68, ${0.35 + 0.35 * Math.sin(state.alarmTimer * 8)})`;
+    ctx.lineWidth = 8;
+    ctx.strokeRect(4, 4, CANVAS_WIDTH - 8, CANVAS_HEIGHT - 8);
+    ctx.lineWidth = 1;
+  }
+};
+
+const MINIMAP_MAX = { width: 140, height: 90 };
+const MINIMAP_MARGIN = 8;
+
+/** Explored parts of the floor in the top-right corner. Only worth it when the floor doesn't fit on screen. */
+export const drawMinimap = (
+  ctx: CanvasRenderingContext2D,
+  state: GameState,
+  exploration: Exploration,
+  camera: Point,
+  isDark: boolean,
+) => {
+  const { world } = state;
+  if (world.width <= CANVAS_WIDTH && world.height <= CANVAS_HEIGHT) return;
+
+  const scale = Math.min(MINIMAP_MAX.width / world.width, MINIMAP_MAX.height / world.height);
+  const left = CANVAS_WIDTH - MINIMAP_MARGIN - world.width * scale;
+  const top = MINIMAP_MARGIN;
+
+  ctx.save();
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+  ctx.fillRect(left - 2, top - 2, world.width * scale + 4, world.height * scale + 4);
+  ctx.translate(left, top);
+  ctx.scale(scale, scale);
+
+  // Everything but the viewport frame and the robber only shows where explored.
+  ctx.beginPath();
+  for (let cy = 0; cy < exploration.rows; cy++) {
+    for (let cx = 0; cx < exploration.cols; cx++) {
+      if (exploration.isExplored(cx, cy)) ctx.rect(cx * EXPLORE_CELL, cy * EXPLORE_CELL, EXPLORE_CELL, EXPLORE_CELL);
+    }
+  }
+  ctx.save();
+  ctx.clip();
+  ctx.fillStyle = isDark ? 'rgba(63, 63, 70, 0.5)' : 'rgba(212, 212, 216, 0.5)';
+  ctx.fillRect(0, 0, world.width, world.height);
+  ctx.fillStyle = isDark ? '#a1a1aa' : '#f4f4f5';
+  state.walls.forEach(w => ctx.fillRect(w.x, w.y, w.w, w.h));
+  ctx.fillStyle = state.foundPassword ? '#22c55e' : '#eab308';
+  ctx.fillRect(state.doorPos.x, state.doorPos.y, 30, 30);
+  ctx.restore();
+
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.6)';
+  ctx.lineWidth = 1 / scale;
+  ctx.strokeRect(camera.x, camera.y, CANVAS_WIDTH, CANVAS_HEIGHT);
+  robbersOf(state).forEach(r => {
+    ctx.fillStyle = r.index === 1 ? '#38bdf8' : isDark ? '#fbbf24' : '#b45309';
+    ctx.fillRect(r.pos.x - 10, r.pos.y - 10, PLAYER_SIZE + 20, PLAYER_SIZE + 20);
+  });
+  ctx.restore();
+};
@@ -0,0 +1,288 @@
+import { FragmentKind } from '../types';
+
+// Pixel-art sprite sheets, painted from the character grids below onto
+// offscreen canvases the first time they're needed. Drawn with smoothing off,
+// so they stay sharp at any size and pixel ratio.
+//
+// Character sheets have a row per Facing and a column per walk frame: 0 and 2
+// stand, 1 and 3 put the left and right foot forward. Only the legs change
+// between frames, so each facing is a body grid plus a set of leg rows.
+
+export type Facing = 'down' | 'left' | 'right' | 'up';
+export type Character = 'robber' | 'partner' | 'guard';
+export type ItemSprite = 'cash' | FragmentKind;
+
+const FACINGS: Facing[] = ['down', 'left', 'right', 'up'];
+export const WALK_FRAMES = 4;
+
+// Every grid character is a colour; '.' is transparent.
+const PALETTE: Record<string, string> = {
+  k: '#18181b', // black
+  w: '#f4f4f5', // white
+  s: '#f5d0a9', // skin
+  b: '#3f3f46', // dark stripe
+  p: '#1e3a8a', // trousers
+  g: '#a16207', // loot bag
+  r: '#dc2626', // uniform
+  n: '#7f1d1d', // cap
+  y: '#facc15', // badge
+  d: '#166534', // note edge
+  G: '#22c55e', // note
+  l: '#bbf7d0', // note print
+  c: '#3b82f6', // keycard
+  C: '#93c5fd', // keycard stripe
+  e: '#fde047', // paper
+  E: '#a16207', // writing
+  m: '#22d3ee', // screen
+  M: '#0e7490', // screen frame
+};
+
+// The co-op partner is the robber in a different shirt.
+const PARTNER_COLORS: Record<string, string> = { w: '#7dd3fc', b: '#0c4a6e' };
+
+interface CharacterArt {
+  body: Record<'down' | 'left' | 'up', string[]>; // right is left mirrored
+  legs: Record<'front' | 'side', string[][]>; // per walk frame
+}
+
+const ROBBER: CharacterArt = {
+  body: {
+    down: [
+      '..kkkkkk..',
+      '.kkkkkkkk.',
+      '.kwwkkwwk.',
+      '.ssssssss.',
+      '..wwwwww..',
+      '.bbbbbbbb.',
+      '.wwwwwwww.',
+      '.sbbbbbbs.',
+    ],
+    left: [
+      '..kkkkkk..',
+      '.kkkkkkkk.',
+      '.wwkkkkkk.',
+      '.sssssskk.',
+      '..wwwwwgg.',
+      '..bbbbbggg',
+      '..wwwwwggg',
+      '..sbbbbgg.',
+    ],
+    up: [
+      '..kkkkkk..',
+      '.kkkkkkkk.',
+      '.kkkkkkkk.',
+      '.kkkkkkkk.',
+      '..wggggw..',
+      '.bggggggb.',
+      '.wggggggw.',
+      '.sbbbbbbs.',
+    ],
+  },
+  legs: {
+    front: [
+      ['..pp..pp..', '..kk..kk..'],
+      ['..pp..pp..', '......kk..'],
+      ['..pp..pp..', '..kk..kk..'],
+      ['..pp..pp..', '..kk......'],
+    ],
+    side: [
+      ['...pppp...', '...kkkk...'],
+      ['..pp..pp..', '.kk....kk.'],
+      ['...pppp...', '...kkkk...'],
+      ['..pp..pp..', '.kk....kk.'],
+    ],
+  },
+};
+
+const GUARD: CharacterArt = {
+  body: {
+    down: [
+      '...nnnnnn...',
+      '..nnnynnnn..',
+      '..kkkkkkkk..',
+      '...ssssss...',
+      '...skssks...',
+      '...ssssss...',
+      '.rrrrrrrrrr.',
+      'rrrrrrrryrrr',
+      'rr.rrrrrr.rr',
+      'ss.kkkkkk.ss',
+    ],
+    left: [
+      '...nnnnnn...',
+      '..nnnnnnnn..',
+      'kkkkkkkkn...',
+      '..sssssss...',
+      '..skssssn...',
+      '...sssss....',
+      '..rrrrrrrr..',
+      '..rrrrrrrr..',
+      '...rrrrrr...',
+      '...skkkkk...',
+    ],
+    up: [
+      '...nnnnnn...',
+      '..nnnnnnnn..',
+      '..nnnnnnnn..',
+      '...nnnnnn...',
+      '...ssssss...',
+      '...ssssss...',
+      '.rrrrrrrrrr.',
+      'rrrrrrrrrrrr',
+      'rr.rrrrrr.rr',
+      'ss.kkkkkk.ss',
+    ],
+  },
+  legs: {
+    front: [
+      ['...pp..pp...', '...kk..kk...'],
+      ['...pp..pp...', '.......kk...'],
+      ['...pp..pp...', '...kk..kk...'],
+      ['...pp..pp...', '...kk.......'],
+    ],
+    side: [
+      ['....pppp....', '....kkkk....'],
+      ['...pp..pp...', '..kk....kk..'],
+      ['....pppp....', '....kkkk....'],
+      ['...pp..pp...', '..kk....kk..'],
+    ],
+  },
+};
+
+const ITEMS: Record<ItemSprite, string[]> = {
+  cash: [
+    '............',
+    '............',
+    '.dddddddddd.',
+    'dGGGGGGGGGGd',
+    'dGlGGllGGlGd',
+    'dGGGlGGlGGGd',
+    'dGGGGllGGGGd',
+    'dGGGlGGlGGGd',
+    'dGlGGllGGlGd',
+    'dGGGGGGGGGGd',
+    '.dddddddddd.',
+    '............',
+  ],
+  keycard: [
+    '............',
+    '............',
+    '..cccccccc..',
+    '.cccccccccc.',
+    '.CCCCCCCCCC.',
+    '.cccccccccc.',
+    '.cwwwcccccc.',
+    '.cwwwcccccc.',
+    '.cccccccccc.',
+    '..cccccccc..',
+    '............',
+    '............',
+  ],
+  note: [
+    '............',
+    '..eeeeeeee..',
+    '..eeeeeeee..',
+    '..eEEEEEee..',
+    '..eeeeeeee..',
+    '..eEEEEEEe..',
+    '..eeeeeeee..',
+    '..eEEEEeee..',
+    '..eeeeeeee..',
+    '..eEEEEEee..',
+    '..eeeeeeee..',
+    '............',
+  ],
+  computer: [
+    '............',
+    '.MMMMMMMMMM.',
+    '.MmmmmmmmmM.',
+    '.MmkkmmmmmM.',
+    '.MmmmmkkmmM.',
+    '.MmkkkmmmmM.',
+    '.MmmmmmmmmM.',
+    '.MMMMMMMMMM.',
+    '.....MM.....',
+    '...MMMMMM...',
+    '............',
+    '............',
+  ],
+};
+
+const paint = (ctx: CanvasRenderingContext2D, grid: string[], left: number, top: number, mirror = false, recolor: Record<string, string> = {}) => {
+  grid.forEach((row, y) => {
+    [...row].forEach((ch, x) => {
+      if (ch === '.') return;
+      ctx.fillStyle = recolor[ch] ?? PALETTE[ch];
+      ctx.fillRect(left + (mirror ? row.length - 1 - x : x), top + y, 1, 1);
+    });
+  });
+};
+
+const createSheet = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return { canvas, ctx: canvas.getContext('2d')! };
+};
+
+const buildCharacter = (art: CharacterArt, recolor?: Record<string, string>) => {
+  const cell = art.body.down[0].length;
+  const { canvas, ctx } = createSheet(cell * WALK_FRAMES, cell * FACINGS.length);
+  FACINGS.forEach((facing, row) => {
+    const body = facing === 'right' ? art.body.left : art.body[facing];
+    const legs = facing === 'down' || facing === 'up' ? art.legs.front : art.legs.side;
+    for (let frame = 0; frame < WALK_FRAMES; frame++) {
+      paint(ctx, [...body, ...legs[frame]], frame * cell, row * cell, facing === 'right', recolor);
+    }
+  });
+  return { canvas, cell };
+};
+
+const buildItems = () => {
+  const kinds = Object.keys(ITEMS) as ItemSprite[];
+  const cell = ITEMS.cash[0].length;
+  const { canvas, ctx } = createSheet(cell * kinds.length, cell);
+  kinds.forEach((kind, i) => paint(ctx, ITEMS[kind], i * cell, 0));
+  return { canvas, cell, kinds };
+};
+
+let sheets: (Record<Character, ReturnType<typeof buildCharacter>> & { items: ReturnType<typeof buildItems> }) | null = null;
+
+const getSheets = () => {
+  sheets ??= {
+    robber: buildCharacter(ROBBER),
+    partner: buildCharacter(ROBBER, PARTNER_COLORS),
+    guard: buildCharacter(GUARD),
+    items: buildItems(),
+  };
+  return sheets;
+};
+
+/** The four-way facing closest to `angle` (radians, y down). */
+export const facingFor = (angle: number): Facing => {
+  const quarter = Math.round(angle / (Math.PI / 2));
+  return (['right', 'down', 'left', 'up'] as Facing[])[((quarter % 4) + 4) % 4];
+};
+
+/** Draws one walk frame of a character, filling the `size` square at (`x`, `y`). */
+export const drawCharacter = (
+  ctx: CanvasRenderingContext2D,
+  who: Character,
+  facing: Facing,
+  frame: number,
+  x: number,
+  y: number,
+  size: number,
+  height = size,
+) => {
+  const { canvas, cell } = getSheets()[who];
+  ctx.imageSmoothingEnabled = false;
+  ctx.drawImage(canvas, (frame % WALK_FRAMES) * cell, FACINGS.indexOf(facing) * cell, cell, cell, x, y + size - height, size, height);
+};
+
+/** Draws an item centred on (`x`, `y`). */
+export const drawItem = (ctx: CanvasRenderingContext2D, item: ItemSprite, x: number, y: number, size: number) => {
+  const { canvas, cell, kinds } = getSheets().items;
+  ctx.imageSmoothingEnabled = false;
+  ctx.drawImage(canvas, kinds.indexOf(item) * cell, 0, cell, cell, x - size / 2, y - size / 2, size, size);
+};
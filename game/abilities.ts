@@ -0,0 +1,131 @@
+import { AbilityId, AreaEffect, GadgetId, GameEvent, GameState, Guard, Noise, Point, Posture, RobberIndex, StepResult } from '../types';
+import {
+  CROUCH_MULTIPLIER, DISTRACTION_COOLDOWN, DISTRACTION_RADIUS, EMP_DURATION, GADGET_COOLDOWN, GUARD_SIZE, PLAYER_SIZE,
+  SMOKE_DURATION, SMOKE_RADIUS, SMOKE_STUN, SPRINT_DRAIN, SPRINT_MULTIPLIER, STAMINA_REGEN, THROW_DISTANCE,
+} from './constants';
+import { isDowned, robberFacing, robberPos } from './coop';
+import { castRay, center } from './geometry';
+import { addNoise, createNoise } from './noise';
+
+// Sprint and crouch are held postures; the distraction throw and gadgets are
+// one-off actions applied between ticks, like terminal commands.
+
+export const GADGETS: Record<GadgetId, { label: string; description: string; price: number; startWith: number }> = {
+  smoke: {
+    label: 'Smoke Bomb',
+    description: 'Blinds and freezes nearby guards; hides you while you stand in it.',
+    price: 300,
+    startWith: 1,
+  },
+  emp: {
+    label: 'EMP',
+    description: 'Freezes every guard and knocks out cameras and lasers for a few seconds.',
+    price: 600,
+    startWith: 0,
+  },
+};
+
+export const GADGET_IDS = Object.keys(GADGETS) as GadgetId[];
+
+export const ABILITY_COOLDOWNS: Record<AbilityId, number> = {
+  distraction: DISTRACTION_COOLDOWN,
+  smoke: GADGET_COOLDOWN,
+  emp: GADGET_COOLDOWN,
+};
+
+export const createAbilityState = () => ({
+  posture: 'walk' as Posture,
+  playerFacing: 0,
+  stamina: 1,
+  cooldowns: { distraction: 0, smoke: 0, emp: 0 },
+  gadgets: { smoke: GADGETS.smoke.startWith, emp: GADGETS.emp.startWith },
+  effects: [] as AreaEffect[],
+});
+
+/** The posture actually used this tick: crouch wins, and sprinting needs stamina. */
+export const resolvePosture = (wanted: Posture, stamina: number): Posture =>
+  wanted === 'sprint' && stamina <= 0 ? 'walk' : wanted;
+
+export const postureSpeed = (posture: Posture) =>
+  posture === 'sprint' ? SPRINT_MULTIPLIER : posture === 'crouch' ? CROUCH_MULTIPLIER : 1;
+
+/** A robber's stamina after `dt` seconds in `posture`. */
+export const tickStamina = (stamina: number, posture: Posture, dt: number) =>
+  posture === 'sprint' ? Math.max(0, stamina - SPRINT_DRAIN * dt) : Math.min(1, stamina + STAMINA_REGEN * dt);
+
+/** Stamina, cooldowns and lingering effects after `dt` seconds. */
+export const tickAbilities = (state: GameState, posture: Posture, dt: number) => ({
+  stamina: tickStamina(state.stamina, posture, dt),
+  cooldowns: {
+    distraction: Math.max(0, state.cooldowns.distraction - dt),
+    smoke: Math.max(0, state.cooldowns.smoke - dt),
+    emp: Math.max(0, state.cooldowns.emp - dt),
+  },
+  effects: state.effects
+    .map(e => ({ ...e, timeLeft: e.timeLeft - dt }))
+    .filter(e => e.timeLeft > 0),
+});
+
+/** True when `p` (the robber's top-left corner) is inside a smoke cloud. */
+export const inSmoke = (state: GameState, p: Point) => {
+  const c = center(p, PLAYER_SIZE);
+  return state.effects.some(e => e.kind === 'smoke' && Math.hypot(c.x - e.pos.x, c.y - e.pos.y) <= e.radius);
+};
+
+const within = (g: Guard, p: Point, radius: number) => {
+  const c = center(g.pos, GUARD_SIZE);
+  return Math.hypot(c.x - p.x, c.y - p.y) <= radius;
+};
+
+const stun = (g: Guard, seconds: number): Guard => ({ ...g, stunTimer: Math.max(g.stunTimer, seconds) });
+
+// Cooldowns and gadgets are shared, so in co-op either robber can use them up.
+export const canUseAbility = (state: GameState, ability: AbilityId, robber: RobberIndex = 0) =>
+  !state.isPaused && !state.isGameOver && !state.showTerminal && !state.showShop && !state.busted &&
+  (robber === 0 || !!state.partner) && !isDowned(state, robber) &&
+  state.cooldowns[ability] <= 0 &&
+  (ability === 'distraction' || state.gadgets[ability] > 0);
+
+export const activateAbility = (state: GameState, ability: AbilityId, robber: RobberIndex = 0): StepResult => {
+  if (!canUseAbility(state, ability, robber)) return { state, events: [] };
+
+  const origin = center(robberPos(state, robber), PLAYER_SIZE);
+  const facing = robberFacing(state, robber);
+  const events: GameEvent[] = [{ type: 'abilityUsed', ability }];
+  const cooldowns = { ...state.cooldowns, [ability]: ABILITY_COOLDOWNS[ability] };
+  let { guards, gadgets, cameras, lasers } = state;
+  let effect: AreaEffect;
+  let noise: Noise | null = null;
+
+  if (ability === 'distraction') {
+    // Thrown ahead, landing short of the first wall in the way. Whoever hears
+    // it land goes to look on the next tick.
+    const dist = Math.max(0, castRay(origin, facing, THROW_DISTANCE, state.walls) - 6);
+    const pos = { x: origin.x + Math.cos(facing) * dist, y: origin.y + Math.sin(facing) * dist };
+    noise = createNoise('distraction', pos);
+    effect = { kind: 'distraction', pos, radius: DISTRACTION_RADIUS, timeLeft: 1, duration: 1 };
+  } else if (ability === 'smoke') {
+    guards = guards.map(g => (within(g, origin, SMOKE_RADIUS) ? stun(g, SMOKE_STUN) : g));
+    effect = { kind: 'smoke', pos: origin, radius: SMOKE_RADIUS, timeLeft: SMOKE_DURATION, duration: SMOKE_DURATION };
+  } else {
+    guards = guards.map(g => stun(g, EMP_DURATION));
+    cameras = cameras.map(c => ({ ...c, disabledTimer: EMP_DURATION, suspicion: 0 }));
+    lasers = lasers.map(l => ({ ...l, disabledTimer: EMP_DURATION }));
+    effect = { kind: 'emp', pos: origin, radius: 0, timeLeft: 0.6, duration: 0.6 };
+  }
+  if (ability !== 'distraction') gadgets = { ...gadgets, [ability]: gadgets[ability] - 1 };
+
+  const next = { ...state, guards, gadgets, cameras, lasers, cooldowns, effects: [...state.effects, effect] };
+  return { state: noise ? addNoise(next, noise) : next, events };
+};
+
+export const buyGadget = (state: GameState, gadget: GadgetId): StepResult => {
+  const { price } = GADGETS[gadget];
+  if (!state.showShop || state.score < price) return { state, events: [] };
+  return {
+    state: { ...state, score: state.score - price, gadgets: { ...state.gadgets, [gadget]: state.gadgets[gadget] + 1 } },
+    events: [{ type: 'gadgetBought', gadget }],
+  };
+};
+
+export const closeShop = (state: GameState): GameState => ({ ...state, showShop: false });
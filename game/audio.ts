@@ -0,0 +1,348 @@
+import { GameState, GuardMode, Point } from '../types';
+import { GUARD_SIZE } from './constants';
+import { teamCenter } from './coop';
+import { center } from './geometry';
+import { settingsFor } from './modes';
+
+// Procedural sound. Every cue, footstep and bar of music is synthesised from
+// oscillators and routed through sfx and music buses into a master bus, so
+// volume and mute live in one place instead of at every call site.
+
+export interface VolumeSettings {
+  master: number; // 0..1
+  sfx: number;
+  music: number;
+  muted: boolean;
+}
+
+export const DEFAULT_VOLUME: VolumeSettings = { master: 0.8, sfx: 1, music: 0.5, muted: false };
+
+const VOLUME_KEY = 'heist.volume';
+
+const isLevel = (v: unknown) => typeof v === 'number' && v >= 0 && v <= 1;
+
+export const loadVolume = (): VolumeSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(VOLUME_KEY) ?? 'null');
+    if (saved && isLevel(saved.master) && isLevel(saved.sfx) && isLevel(saved.music) && typeof saved.muted === 'boolean') {
+      return saved;
+    }
+  } catch (e) {
+    // Fall through to the defaults
+  }
+  return DEFAULT_VOLUME;
+};
+
+export const saveVolume = (volume: VolumeSettings) => {
+  try {
+    localStorage.setItem(VOLUME_KEY, JSON.stringify(volume));
+  } catch (e) {
+    // Storage unavailable: the setting lasts for this session only
+  }
+};
+
+interface Note {
+  wave: OscillatorType;
+  freq: number;
+  duration: number; // seconds
+  volume: number;
+  at?: number; // seconds after the cue starts
+}
+
+export type SoundCue =
+  | 'collect' | 'fragment' | 'passwordSuccess' | 'passwordFail'
+  | 'caught' | 'transition' | 'suspicious' | 'alert'
+  | 'throw' | 'smoke' | 'emp' | 'purchase';
+
+// Scheduled on the audio clock, so sequences stay in time even when the main
+// thread is busy.
+const CUES: Record<SoundCue, Note[]> = {
+  collect: [{ wave: 'triangle', freq: 880, duration: 0.1, volume: 0.15 }],
+  fragment: [
+    { wave: 'triangle', freq: 660, duration: 0.1, volume: 0.15 },
+    { wave: 'triangle', freq: 990, duration: 0.15, volume: 0.15, at: 0.08 },
+  ],
+  passwordSuccess: [
+    { wave: 'sine', freq: 440, duration: 0.2, volume: 0.2 },
+    { wave: 'sine', freq: 554.37, duration: 0.2, volume: 0.2, at: 0.1 },
+    { wave: 'sine', freq: 659.25, duration: 0.4, volume: 0.2, at: 0.2 },
+  ],
+  passwordFail: [
+    { wave: 'sawtooth', freq: 220, duration: 0.2, volume: 0.1 },
+    { wave: 'sawtooth', freq: 110, duration: 0.4, volume: 0.1, at: 0.1 },
+  ],
+  caught: [
+    { wave: 'sawtooth', freq: 100, duration: 0.5, volume: 0.3 },
+    { wave: 'square', freq: 150, duration: 0.5, volume: 0.1 },
+  ],
+  transition: [
+    { wave: 'sine', freq: 330, duration: 0.5, volume: 0.1 },
+    { wave: 'sine', freq: 440, duration: 0.5, volume: 0.1, at: 0.15 },
+  ],
+  suspicious: [{ wave: 'sine', freq: 660, duration: 0.15, volume: 0.08 }],
+  alert: [
+    { wave: 'square', freq: 880, duration: 0.15, volume: 0.12 },
+    { wave: 'square', freq: 880, duration: 0.15, volume: 0.12, at: 0.18 },
+  ],
+  throw: [
+    { wave: 'triangle', freq: 520, duration: 0.08, volume: 0.1 },
+    { wave: 'triangle', freq: 260, duration: 0.12, volume: 0.12, at: 0.25 },
+  ],
+  smoke: [
+    { wave: 'sawtooth', freq: 90, duration: 0.6, volume: 0.08 },
+    { wave: 'sine', freq: 180, duration: 0.4, volume: 0.06, at: 0.05 },
+  ],
+  emp: [
+    { wave: 'square', freq: 1200, duration: 0.08, volume: 0.1 },
+    { wave: 'sawtooth', freq: 60, duration: 0.7, volume: 0.15, at: 0.05 },
+  ],
+  purchase: [
+    { wave: 'triangle', freq: 990, duration: 0.08, volume: 0.12 },
+    { wave: 'triangle', freq: 1320, duration: 0.12, volume: 0.12, at: 0.07 },
+  ],
+};
+
+// Footsteps
+const STEP_LENGTH = 28; // pixels a guard walks between steps
+const TELEPORT_DISTANCE = 50; // bigger jumps are a new floor, not walking
+const HEARING_RANGE = 350;
+const PAN_RANGE = 300; // this far to the side is hard left/right
+
+// Music
+const MUSIC_ROOT = 110; // A2
+const BASS = [0, null, 0, null, 7, null, 0, null, 3, null, 0, null, 10, null, 7, null]; // semitones, one per 16th
+const ARPEGGIO = [12, 15, 19, 22, 24, 22, 19, 15];
+const LOOKAHEAD = 0.12; // seconds of music scheduled ahead
+const SCHEDULER_INTERVAL = 25; // ms
+const URGENT_TIME = 20; // seconds left when the music starts to hurry
+
+const MODE_INTENSITY: Record<GuardMode, number> = {
+  patrol: 0,
+  return: 0.2,
+  suspicious: 0.5,
+  search: 0.6,
+  alert: 1,
+};
+
+export interface MusicMood {
+  intensity: number; // 0 calm .. 1 chase
+  urgency: number; // 0 plenty of time .. 1 out of time
+}
+
+/** How tense the music should be for `state`: the most alarmed guard, and the clock. */
+export const moodFor = (state: GameState): MusicMood => ({
+  intensity: Math.max(0, ...state.guards.map(g => MODE_INTENSITY[g.mode])),
+  urgency: settingsFor(state.config).timer ? Math.max(0, Math.min(1, 1 - state.timeLeft / URGENT_TIME)) : 0,
+});
+
+const semitone = (n: number) => MUSIC_ROOT * Math.pow(2, n / 12);
+
+export const createAudioEngine = (initial: VolumeSettings) => {
+  let ctx: AudioContext | null = null;
+  let master: GainNode | null = null;
+  let sfx: GainNode | null = null;
+  let music: GainNode | null = null;
+  let noise: AudioBuffer | null = null;
+  let volume = initial;
+
+  let mood: MusicMood | null = null;
+  let scheduler: ReturnType<typeof setInterval> | null = null;
+  let nextStepTime = 0;
+  let musicStep = 0;
+
+  let alarm: { osc: OscillatorNode; lfo: OscillatorNode; gain: GainNode } | null = null;
+  const walked = new Map<string, { pos: Point; distance: number }>();
+
+  const applyVolume = () => {
+    if (!ctx || !master || !sfx || !music) return;
+    const now = ctx.currentTime;
+    master.gain.setTargetAtTime(volume.muted ? 0 : volume.master, now, 0.02);
+    sfx.gain.setTargetAtTime(volume.sfx, now, 0.02);
+    music.gain.setTargetAtTime(volume.music, now, 0.02);
+  };
+
+  // Browsers keep an AudioContext suspended until a user gesture, and may
+  // suspend it again (e.g. iOS after a call), so every gesture tries to resume.
+  const unlock = () => {
+    if (!ctx) {
+      try {
+        ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+      } catch (e) {
+        return; // No Web Audio: stay silent
+      }
+      master = ctx.createGain();
+      sfx = ctx.createGain();
+      music = ctx.createGain();
+      sfx.connect(master);
+      music.connect(master);
+      master.connect(ctx.destination);
+      noise = ctx.createBuffer(1, ctx.sampleRate * 0.05, ctx.sampleRate);
+      const data = noise.getChannelData(0);
+      for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+      applyVolume();
+    }
+    if (ctx.state === 'suspended') ctx.resume().catch(() => {});
+  };
+
+  const running = () => !!ctx && ctx.state === 'running';
+
+  const tone = (note: Note, start: number, bus: AudioNode) => {
+    const osc = ctx!.createOscillator();
+    const gain = ctx!.createGain();
+    osc.type = note.wave;
+    osc.frequency.setValueAtTime(note.freq, start);
+    gain.gain.setValueAtTime(note.volume, start);
+    gain.gain.exponentialRampToValueAtTime(0.0001, start + note.duration);
+    osc.connect(gain).connect(bus);
+    osc.start(start);
+    osc.stop(start + note.duration);
+  };
+
+  const hat = (start: number, volume: number) => {
+    const src = ctx!.createBufferSource();
+    const filter = ctx!.createBiquadFilter();
+    const gain = ctx!.createGain();
+    src.buffer = noise;
+    filter.type = 'highpass';
+    filter.frequency.value = 6000;
+    gain.gain.setValueAtTime(volume, start);
+    gain.gain.exponentialRampToValueAtTime(0.0001, start + 0.04);
+    src.connect(filter).connect(gain).connect(music!);
+    src.start(start);
+  };
+
+  // One 16th of the loop. Layers come in as the mood gets tenser.
+  const scheduleStep = (step: number, start: number, length: number) => {
+    if (!mood) return;
+    const bass = BASS[step % BASS.length];
+    if (bass !== null) tone({ wave: 'triangle', freq: semitone(bass), duration: length * 1.8, volume: 0.12 }, start, music!);
+    if (mood.intensity >= 0.3 && step % 2 === 0) hat(start, 0.03 + 0.04 * mood.intensity);
+    if (mood.intensity >= 0.7) {
+      const note = ARPEGGIO[step % ARPEGGIO.length];
+      tone({ wave: 'sawtooth', freq: semitone(note), duration: length * 0.9, volume: 0.025 }, start, music!);
+    }
+    if (mood.urgency > 0 && step % 4 === 0) {
+      tone({ wave: 'square', freq: semitone(24), duration: 0.05, volume: 0.02 + 0.04 * mood.urgency }, start, music!);
+    }
+  };
+
+  const scheduleMusic = () => {
+    if (!running() || !mood) return;
+    const bpm = 84 + 36 * mood.intensity + 30 * mood.urgency;
+    const length = 60 / bpm / 4;
+    // Don't try to catch up on steps missed while the tab was in the background.
+    if (nextStepTime < ctx!.currentTime) nextStepTime = ctx!.currentTime + 0.02;
+    while (nextStepTime < ctx!.currentTime + LOOKAHEAD) {
+      scheduleStep(musicStep, nextStepTime, length);
+      musicStep = (musicStep + 1) % 16;
+      nextStepTime += length;
+    }
+  };
+
+  const setAlarm = (on: boolean) => {
+    if (on && !alarm && running()) {
+      // A siren: a sawtooth swept up and down by a slow LFO.
+      const osc = ctx!.createOscillator();
+      const lfo = ctx!.createOscillator();
+      const depth = ctx!.createGain();
+      const gain = ctx!.createGain();
+      osc.type = 'sawtooth';
+      osc.frequency.value = 700;
+      lfo.frequency.value = 1.5;
+      depth.gain.value = 180;
+      lfo.connect(depth).connect(osc.frequency);
+      gain.gain.setValueAtTime(0.0001, ctx!.currentTime);
+      gain.gain.exponentialRampToValueAtTime(0.04, ctx!.currentTime + 0.2);
+      osc.connect(gain).connect(sfx!);
+      osc.start();
+      lfo.start();
+      alarm = { osc, lfo, gain };
+    } else if (!on && alarm) {
+      const stopAt = ctx!.currentTime + 0.3;
+      alarm.gain.gain.setTargetAtTime(0.0001, ctx!.currentTime, 0.08);
+      alarm.osc.stop(stopAt);
+      alarm.lfo.stop(stopAt);
+      alarm = null;
+    }
+  };
+
+  return {
+    /** Listens for the first (and every later) user gesture to start or resume audio. */
+    attach: () => {
+      const gestures = ['pointerdown', 'keydown', 'touchstart'];
+      gestures.forEach(type => window.addEventListener(type, unlock, true));
+      return () => gestures.forEach(type => window.removeEventListener(type, unlock, true));
+    },
+    /** Gamepads don't count as gestures in every browser; call on button presses too. */
+    unlock,
+    setVolume: (next: VolumeSettings) => {
+      volume = next;
+      applyVolume();
+    },
+    play: (cue: SoundCue) => {
+      if (!running()) return;
+      const now = ctx!.currentTime;
+      CUES[cue].forEach(note => tone(note, now + (note.at ?? 0), sfx!));
+    },
+    /**
+     * Call once per frame. Drives the music and the alarm from `state`; pass
+     * null when nothing is being played (paused, game over, title screen).
+     */
+    update: (state: GameState | null) => {
+      mood = state ? moodFor(state) : null;
+      setAlarm(!!state && (state.alarmTimer > 0 || state.guards.some(g => g.mode === 'alert')));
+      if (mood && !scheduler) {
+        scheduler = setInterval(scheduleMusic, SCHEDULER_INTERVAL);
+        scheduleMusic();
+      } else if (!mood && scheduler) {
+        clearInterval(scheduler);
+        scheduler = null;
+      }
+    },
+    /** Call once per tick: a step for every STEP_LENGTH a guard walks, panned to where it is. */
+    footsteps: (state: GameState) => {
+      const listener = teamCenter(state);
+      const seen = new Set<string>();
+      for (const g of state.guards) {
+        seen.add(g.id);
+        const last = walked.get(g.id);
+        const moved = last ? Math.hypot(g.pos.x - last.pos.x, g.pos.y - last.pos.y) : 0;
+        const distance = moved > TELEPORT_DISTANCE ? 0 : (last?.distance ?? 0) + moved;
+        walked.set(g.id, { pos: g.pos, distance: distance >= STEP_LENGTH ? 0 : distance });
+        if (distance < STEP_LENGTH || !running()) continue;
+
+        const source = center(g.pos, GUARD_SIZE);
+        const loudness = 1 - Math.hypot(source.x - listener.x, source.y - listener.y) / HEARING_RANGE;
+        if (loudness <= 0) continue;
+        const start = ctx!.currentTime;
+        const osc = ctx!.createOscillator();
+        const gain = ctx!.createGain();
+        osc.type = 'triangle';
+        osc.frequency.setValueAtTime(110, start);
+        osc.frequency.exponentialRampToValueAtTime(60, start + 0.06);
+        gain.gain.setValueAtTime(0.12 * loudness, start);
+        gain.gain.exponentialRampToValueAtTime(0.0001, start + 0.08);
+        osc.connect(gain);
+        if (ctx!.createStereoPanner) {
+          const panner = ctx!.createStereoPanner();
+          panner.pan.value = Math.max(-1, Math.min(1, (source.x - listener.x) / PAN_RANGE));
+          gain.connect(panner).connect(sfx!);
+        } else {
+          gain.connect(sfx!);
+        }
+        osc.start(start);
+        osc.stop(start + 0.08);
+      }
+      walked.forEach((_, id) => { if (!seen.has(id)) walked.delete(id); });
+    },
+    dispose: () => {
+      if (scheduler) clearInterval(scheduler);
+      scheduler = null;
+      ctx?.close().catch(() => {});
+      ctx = null;
+      alarm = null;
+    },
+  };
+};
+
+export type AudioEngine = ReturnType<typeof createAudioEngine>;
@@ -0,0 +1,119 @@
+import { GameState, Point, Size, Wall } from '../types';
+import { CAMERA_DEADZONE, CAMERA_SMOOTHING, CANVAS_HEIGHT, CANVAS_WIDTH, EXPLORE_CELL, EXPLORE_RADIUS, PLAYER_SIZE } from './constants';
+import { robbersOf, teamCenter } from './coop';
+import { center } from './geometry';
+
+// View-only helpers for floors bigger than the canvas. Nothing here feeds back
+// into the simulation, so it stays out of GameState (and replays).
+
+export const VIEWPORT: Size = { width: CANVAS_WIDTH, height: CANVAS_HEIGHT };
+
+// Keeps the view inside the world; a world smaller than the view is centred.
+const clampAxis = (v: number, view: number, world: number) =>
+  world <= view ? (world - view) / 2 : Math.max(0, Math.min(world - view, v));
+
+/**
+ * A camera that only starts moving once `focus` leaves a deadzone in the
+ * middle of the view, then eases towards it. `x`/`y` is the world position of
+ * the view's top-left corner.
+ */
+export const createCamera = () => {
+  let pos: Point = { x: 0, y: 0 };
+  let target: Point = { x: 0, y: 0 };
+
+  const retarget = (focus: Point, world: Size) => {
+    const left = target.x + (VIEWPORT.width - CAMERA_DEADZONE.width) / 2;
+    const top = target.y + (VIEWPORT.height - CAMERA_DEADZONE.height) / 2;
+    let { x, y } = target;
+    if (focus.x < left) x -= left - focus.x;
+    else if (focus.x > left + CAMERA_DEADZONE.width) x += focus.x - left - CAMERA_DEADZONE.width;
+    if (focus.y < top) y -= top - focus.y;
+    else if (focus.y > top + CAMERA_DEADZONE.height) y += focus.y - top - CAMERA_DEADZONE.height;
+    target = { x: clampAxis(x, VIEWPORT.width, world.width), y: clampAxis(y, VIEWPORT.height, world.height) };
+  };
+
+  return {
+    /** Moves the camera `dt` seconds closer to keeping `focus` in the deadzone. */
+    follow: (focus: Point, world: Size, dt: number) => {
+      retarget(focus, world);
+      const t = 1 - Math.exp(-CAMERA_SMOOTHING * dt);
+      pos = { x: pos.x + (target.x - pos.x) * t, y: pos.y + (target.y - pos.y) * t };
+    },
+    /** Centres on `focus` straight away, e.g. on a new floor or after seeking. */
+    snap: (focus: Point, world: Size) => {
+      target = {
+        x: clampAxis(focus.x - VIEWPORT.width / 2, VIEWPORT.width, world.width),
+        y: clampAxis(focus.y - VIEWPORT.height / 2, VIEWPORT.height, world.height),
+      };
+      pos = target;
+    },
+    get: () => pos,
+  };
+};
+
+export type Camera = ReturnType<typeof createCamera>;
+
+/** Coarse record of which parts of a floor the robber has been near, for the minimap. */
+export const createExploration = (world: Size) => {
+  const cols = Math.ceil(world.width / EXPLORE_CELL);
+  const rows = Math.ceil(world.height / EXPLORE_CELL);
+  const cells = new Uint8Array(cols * rows);
+  const reach = Math.ceil(EXPLORE_RADIUS / EXPLORE_CELL);
+
+  return {
+    cols,
+    rows,
+    reveal: (p: Point) => {
+      const pcx = Math.floor(p.x / EXPLORE_CELL);
+      const pcy = Math.floor(p.y / EXPLORE_CELL);
+      for (let cy = Math.max(0, pcy - reach); cy <= Math.min(rows - 1, pcy + reach); cy++) {
+        for (let cx = Math.max(0, pcx - reach); cx <= Math.min(cols - 1, pcx + reach); cx++) {
+          const dx = (cx + 0.5) * EXPLORE_CELL - p.x;
+          const dy = (cy + 0.5) * EXPLORE_CELL - p.y;
+          if (dx * dx + dy * dy <= EXPLORE_RADIUS * EXPLORE_RADIUS) cells[cy * cols + cx] = 1;
+        }
+      }
+    },
+    isExplored: (cx: number, cy: number) => cells[cy * cols + cx] === 1,
+  };
+};
+
+export type Exploration = ReturnType<typeof createExploration>;
+
+const MAX_FRAME_GAP = 0.1; // seconds; a stalled tab shouldn't make the camera jump
+
+/**
+ * The camera and minimap memory for whatever floor is being drawn. Like the
+ * nav grid cache, a new `walls` array means a new floor, which resets both.
+ */
+export const createFloorView = () => {
+  const camera = createCamera();
+  let walls: Wall[] | null = null;
+  let exploration: Exploration | null = null;
+  let lastFrame = 0;
+  let snapNext = true;
+
+  return {
+    /** Call once per rendered frame with the state about to be drawn. */
+    update: (state: GameState, now: number) => {
+      const focus = teamCenter(state);
+      if (state.walls !== walls || !exploration) {
+        walls = state.walls;
+        exploration = createExploration(state.world);
+        snapNext = true;
+      }
+      if (snapNext) camera.snap(focus, state.world);
+      else camera.follow(focus, state.world, Math.min(MAX_FRAME_GAP, (now - lastFrame) / 1000));
+      snapNext = false;
+      lastFrame = now;
+      for (const r of robbersOf(state)) exploration.reveal(center(r.pos, PLAYER_SIZE));
+      return { camera: camera.get(), exploration };
+    },
+    /** The next frame jumps straight to the robber instead of scrolling. */
+    snap: () => {
+      snapNext = true;
+    },
+  };
+};
+
+export type FloorView = ReturnType<typeof createFloorView>;
@@ -0,0 +1,76 @@
+export const CANVAS_WIDTH = 600;
+export const CANVAS_HEIGHT = 400;
+export const PLAYER_SIZE = 20;
+export const GUARD_SIZE = 24;
+export const SPEED = 4;
+export const PICKUP_RANGE = 20; // how close the robber must get to grab cash or a fragment
+export const BUSTED_DURATION = 1.5; // seconds the capture plays out before respawning
+export const INITIAL_TIME_PER_FLOOR = 60; // seconds
+
+// The simulation is tuned in "per tick at 60 Hz" units.
+export const TICK_RATE = 60;
+export const PLAYER_SPAWN = { x: 30, y: 30 };
+// Floors that don't say otherwise are exactly one screen.
+export const DEFAULT_WORLD = { width: CANVAS_WIDTH, height: CANVAS_HEIGHT };
+
+// Camera
+export const CAMERA_DEADZONE = { width: 160, height: 100 }; // centred on the viewport
+export const CAMERA_SMOOTHING = 8; // per second; higher catches up faster
+export const EXPLORE_CELL = 40; // minimap resolution
+export const EXPLORE_RADIUS = 120; // how far around the robber counts as explored
+
+// Guard perception
+export const VIEW_DISTANCE = 150;
+export const VIEW_HALF_ANGLE = Math.PI / 5;
+export const TOUCH_DISTANCE = 30; // guards always notice a robber this close
+export const SUSPICION_RATE = 1.5; // per second while in view
+export const SUSPICION_DECAY = 0.5; // per second while out of view
+export const CHASE_SPEED_MULTIPLIER = 1.4;
+export const SEARCH_DURATION = 3; // seconds spent looking around the last known position
+
+// Door lock
+export const PASSWORD_LENGTH = 4;
+export const WRONG_CODE_TIME_PENALTY = 10; // seconds
+
+// Abilities
+export const SPRINT_MULTIPLIER = 1.6;
+export const CROUCH_MULTIPLIER = 0.5;
+export const CROUCH_VISIBILITY = 0.5; // scales guard view distance and suspicion build-up
+export const SPRINT_DRAIN = 0.5; // stamina per second
+export const STAMINA_REGEN = 0.25; // per second while not sprinting
+export const THROW_DISTANCE = 140;
+export const DISTRACTION_RADIUS = 200;
+export const DISTRACTION_COOLDOWN = 6; // seconds
+export const SMOKE_RADIUS = 70;
+export const SMOKE_DURATION = 4; // seconds the cloud lingers
+export const SMOKE_STUN = 2.5; // seconds guards caught in it are frozen
+export const EMP_DURATION = 3; // seconds every guard, camera and laser is knocked out
+export const GADGET_COOLDOWN = 1;
+
+// Noise
+export const NOISE_WALL_DAMPING = 0.5; // share of a noise's reach left after each wall it passes through
+export const NOISE_RING_TIME = 0.8; // seconds a noise ring shows for
+export const NOISE_METER_DECAY = 0.6; // per second
+export const CROUCH_NOISE = 0.5; // scales the noise of bumps and pickups while crouching
+
+// Security systems
+export const CAMERA_RANGE = 170;
+export const CAMERA_HALF_ANGLE = 0.35; // radians
+export const CAMERA_DETECT_TIME = 0.6; // seconds of continuous sight before the alarm
+export const VAULT_HACK_TIME = 4; // seconds standing next to a vault
+export const VAULT_HACK_RANGE = 16; // gap between the robber and the vault
+export const ALARM_DURATION = 8; // seconds
+
+// Co-op
+export const DOWNED_TIME = 8; // seconds a downed robber has before the guards come back for them
+export const REVIVE_TIME = 2; // seconds their partner must stay beside them
+export const REVIVE_RANGE = 30; // centre to centre
+// Furthest apart the robbers can get. The camera follows the point between
+// them, which may sit anywhere in its deadzone, and both still fit on screen.
+export const PARTNER_LEASH = {
+  width: CANVAS_WIDTH - CAMERA_DEADZONE.width - PLAYER_SIZE * 2,
+  height: CANVAS_HEIGHT - CAMERA_DEADZONE.height - PLAYER_SIZE * 2,
+};
+
+// Stats
+export const NEAR_MISS_DISTANCE = 45; // centre to centre
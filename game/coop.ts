@@ -0,0 +1,63 @@
+import { GameState, Partner, Point, Posture, RobberIndex, Wall } from '../types';
+import { PARTNER_LEASH, PLAYER_SIZE, REVIVE_RANGE } from './constants';
+import { center, collidesWithWalls } from './geometry';
+
+// Local co-op: a second robber sharing the floor, the clock and the score.
+// The first robber's state stays at the top of GameState so solo runs look
+// exactly as they always have; the partner is everything that differs per
+// robber. Helpers here let the rules treat both the same way.
+
+export interface Robber {
+  index: RobberIndex;
+  pos: Point;
+  facing: number;
+  posture: Posture;
+  stamina: number;
+}
+
+/** Every robber on the floor, downed ones included; the first is always robber 0. */
+export const robbersOf = (state: GameState): Robber[] => {
+  const first: Robber = { index: 0, pos: state.playerPos, facing: state.playerFacing, posture: state.posture, stamina: state.stamina };
+  return state.partner ? [first, { index: 1, ...state.partner }] : [first];
+};
+
+export const robberPos = (state: GameState, robber: RobberIndex) =>
+  robber === 1 && state.partner ? state.partner.pos : state.playerPos;
+
+export const robberFacing = (state: GameState, robber: RobberIndex) =>
+  robber === 1 && state.partner ? state.partner.facing : state.playerFacing;
+
+/** The point midway between the robbers, or the one robber's centre; what the camera and ears follow. */
+export const teamCenter = (state: GameState): Point => {
+  const a = center(state.playerPos, PLAYER_SIZE);
+  if (!state.partner) return a;
+  const b = center(state.partner.pos, PLAYER_SIZE);
+  return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+};
+
+export const isDowned = (state: GameState, robber: RobberIndex) => state.downed?.robber === robber;
+
+// Where the second robber starts: beside the first if there's room, on top of them if not.
+const PARTNER_OFFSETS: Point[] = [{ x: 28, y: 0 }, { x: 0, y: 28 }, { x: -28, y: 0 }, { x: 0, y: -28 }];
+
+export const createPartner = (spawn: Point, walls: Wall[]): Partner => {
+  const pos = PARTNER_OFFSETS
+    .map(o => ({ x: spawn.x + o.x, y: spawn.y + o.y }))
+    .find(p => !collidesWithWalls(p.x, p.y, PLAYER_SIZE, walls));
+  return { pos: pos ?? { ...spawn }, facing: 0, posture: 'walk', stamina: 1 };
+};
+
+/** The box a robber's top-left corner may move in to stay on screen with a partner at `other`. */
+export const leashBounds = (other: Point): Wall => ({
+  x: other.x - PARTNER_LEASH.width,
+  y: other.y - PARTNER_LEASH.height,
+  w: PARTNER_LEASH.width * 2,
+  h: PARTNER_LEASH.height * 2,
+});
+
+/** True when robbers at `a` and `b` are close enough for one to revive the other. */
+export const canRevive = (a: Point, b: Point) => {
+  const ca = center(a, PLAYER_SIZE);
+  const cb = center(b, PLAYER_SIZE);
+  return Math.hypot(ca.x - cb.x, ca.y - cb.y) <= REVIVE_RANGE;
+};
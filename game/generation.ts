@@ -0,0 +1,568 @@
+import {
+  AlarmPanel, FloorSummary, GameConfig, GameState, Guard, LaserGrid, LevelDefinition, Money, PasswordFragment, Point, RunStats,
+  SecurityCamera, Size, Vault, Wall,
+} from '../types';
+import { DEFAULT_CAMPAIGN, getCampaignLevel } from '../levels';
+import { CANVAS_HEIGHT, CANVAS_WIDTH, DEFAULT_WORLD, INITIAL_TIME_PER_FLOOR, PLAYER_SIZE, PLAYER_SPAWN } from './constants';
+import { collidesWithWalls } from './geometry';
+import { buildWalkGrid, cellToPoint, floodFill, isReachableNear, NEIGHBOURS, WalkGrid } from './grid';
+import { createAbilityState } from './abilities';
+import { createPartner } from './coop';
+import { applyFloorUpgrades, createUpgrades } from './upgrades';
+import { generateLock, hiddenCode, Lock, randomFragmentKind } from './lock';
+import { DEFAULT_CONFIG, ModeSettings, settingsFor } from './modes';
+import { getNavGrid } from './navigation';
+import { createFloorRng, Rng } from './rng';
+
+// Every loop in here is bounded: when random placement keeps failing we fall
+// back to something that is known to be valid instead of retrying forever.
+const MAX_LAYOUT_ATTEMPTS = 20;
+const MAX_PLACEMENT_ATTEMPTS = 50;
+const PICKUP_RADIUS = 19;
+const GUARD_SPAWN_CLEARANCE = 150;
+
+// Procedural floors are a grid of rooms joined by doorways.
+const ROOM_WIDTH = 300;
+const ROOM_HEIGHT = 200;
+const WALL_THICKNESS = 10;
+const DOORWAY_WIDTH = 60;
+const EXTRA_DOORWAY_CHANCE = 0.3; // on top of the spanning tree, so there are loops to run around
+// Obstacles keep this far from a room's edges, which leaves a corridor all the
+// way round every room so they can never cut it off.
+const OBSTACLE_MARGIN = 40;
+
+export const borderWalls = (world: Size): Wall[] => [
+  { x: 0, y: 0, w: world.width, h: WALL_THICKNESS },
+  { x: 0, y: world.height - WALL_THICKNESS, w: world.width, h: WALL_THICKNESS },
+  { x: 0, y: 0, w: WALL_THICKNESS, h: world.height },
+  { x: world.width - WALL_THICKNESS, y: 0, w: WALL_THICKNESS, h: world.height },
+];
+
+export const doorPosFor = (world: Size): Point => ({ x: world.width - 40, y: world.height - 40 });
+
+// One screen (2x2 rooms) at first, growing a row or column every few floors.
+const roomGridFor = (floor: number) => ({
+  cols: Math.min(2 + Math.floor((floor - 1) / 2), 5),
+  rows: Math.min(2 + Math.floor((floor - 1) / 3), 4),
+});
+
+export const worldSizeFor = (floor: number): Size => {
+  const { cols, rows } = roomGridFor(floor);
+  return { width: cols * ROOM_WIDTH, height: rows * ROOM_HEIGHT };
+};
+
+// Obstacles may never cover the spawn or the door.
+const keepClear = (world: Size): Wall[] => {
+  const door = doorPosFor(world);
+  return [
+    { x: PLAYER_SPAWN.x - 20, y: PLAYER_SPAWN.y - 20, w: PLAYER_SIZE + 40, h: PLAYER_SIZE + 40 },
+    { x: door.x - 20, y: door.y - 20, w: 70, h: 70 },
+  ];
+};
+
+const overlaps = (a: Wall, b: Wall) =>
+  a.x < b.x + b.w && a.x + a.w > b.x && a.y < b.y + b.h && a.y + a.h > b.y;
+
+// Randomised depth-first walk over the room grid. Returns the set of room
+// pairs ("a-b", a < b) that get a doorway, which connects every room.
+const spanningDoorways = (cols: number, rows: number, rng: Rng) => {
+  const doorways = new Set<string>();
+  const visited = new Uint8Array(cols * rows);
+  const stack = [0];
+  visited[0] = 1;
+  while (stack.length > 0) {
+    const room = stack[stack.length - 1];
+    const rc = room % cols;
+    const rr = Math.floor(room / cols);
+    const options = NEIGHBOURS
+      .map(([dx, dy]) => [rc + dx, rr + dy])
+      .filter(([c, r]) => c >= 0 && r >= 0 && c < cols && r < rows && !visited[r * cols + c]);
+    if (options.length === 0) {
+      stack.pop();
+      continue;
+    }
+    const [nc, nr] = options[rng.int(0, options.length - 1)];
+    const next = nr * cols + nc;
+    visited[next] = 1;
+    doorways.add(`${Math.min(room, next)}-${Math.max(room, next)}`);
+    stack.push(next);
+  }
+  return doorways;
+};
+
+/** Walls for a floor, plus the doorway gaps between its rooms. */
+export const generateWalls = (floor: number, world: Size, rng: Rng) => {
+  const walls = borderWalls(world);
+  const gaps: Wall[] = [];
+  const cols = Math.round(world.width / ROOM_WIDTH);
+  const rows = Math.round(world.height / ROOM_HEIGHT);
+  const doorways = spanningDoorways(cols, rows, rng);
+
+  // A divider between two rooms, split around a doorway when it has one.
+  const addDivider = (a: number, b: number, wall: Wall, vertical: boolean) => {
+    if (!doorways.has(`${a}-${b}`) && rng.next() >= EXTRA_DOORWAY_CHANCE) {
+      walls.push(wall);
+      return;
+    }
+    const length = vertical ? wall.h : wall.w;
+    const gapStart = rng.int(OBSTACLE_MARGIN, length - OBSTACLE_MARGIN - DOORWAY_WIDTH);
+    const gapEnd = gapStart + DOORWAY_WIDTH;
+    if (vertical) {
+      walls.push({ ...wall, h: gapStart }, { ...wall, y: wall.y + gapEnd, h: length - gapEnd });
+      gaps.push({ ...wall, y: wall.y + gapStart, h: DOORWAY_WIDTH });
+    } else {
+      walls.push({ ...wall, w: gapStart }, { ...wall, x: wall.x + gapEnd, w: length - gapEnd });
+      gaps.push({ ...wall, x: wall.x + gapStart, w: DOORWAY_WIDTH });
+    }
+  };
+
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      const room = r * cols + c;
+      if (c < cols - 1) {
+        addDivider(room, room + 1, {
+          x: (c + 1) * ROOM_WIDTH - WALL_THICKNESS / 2, y: r * ROOM_HEIGHT, w: WALL_THICKNESS, h: ROOM_HEIGHT,
+        }, true);
+      }
+      if (r < rows - 1) {
+        addDivider(room, room + cols, {
+          x: c * ROOM_WIDTH, y: (r + 1) * ROOM_HEIGHT - WALL_THICKNESS / 2, w: ROOM_WIDTH, h: WALL_THICKNESS,
+        }, false);
+      }
+    }
+  }
+
+  // Furniture: about as many pieces per screen as the old single-room floors.
+  const zones = keepClear(world);
+  const numObstacles = Math.round(Math.min(3 + floor, 8) * (cols * rows) / 4);
+  for (let i = 0; i < numObstacles; i++) {
+    const room = rng.int(0, cols * rows - 1);
+    const roomX = (room % cols) * ROOM_WIDTH;
+    const roomY = Math.floor(room / cols) * ROOM_HEIGHT;
+    for (let attempt = 0; attempt < MAX_PLACEMENT_ATTEMPTS; attempt++) {
+      const w = rng.int(30, 90);
+      const h = rng.int(30, 90);
+      const wall = {
+        x: roomX + rng.int(OBSTACLE_MARGIN, ROOM_WIDTH - OBSTACLE_MARGIN - w),
+        y: roomY + rng.int(OBSTACLE_MARGIN, ROOM_HEIGHT - OBSTACLE_MARGIN - h),
+        w,
+        h,
+      };
+      if (!zones.some(zone => overlaps(zone, wall))) {
+        walls.push(wall);
+        break;
+      }
+    }
+  }
+
+  return { walls, doorways: gaps };
+};
+
+export interface FloorLayout {
+  world: Size;
+  walls: Wall[];
+  doorways: Wall[];
+  grid: WalkGrid;
+  reached: Uint8Array;
+}
+
+const analyzeLayout = (walls: Wall[], world: Size, spawn: Point = PLAYER_SPAWN, doorways: Wall[] = []): FloorLayout => {
+  const grid = buildWalkGrid(walls, PLAYER_SIZE, world);
+  return { world, walls, doorways, grid, reached: floodFill(grid, spawn) };
+};
+
+/**
+ * Regenerates walls until the door can be reached from spawn at PLAYER_SIZE.
+ * Falls back to one big empty room after MAX_LAYOUT_ATTEMPTS.
+ */
+export const generateLayout = (floor: number, rng: Rng): FloorLayout => {
+  const world = worldSizeFor(floor);
+  for (let attempt = 0; attempt < MAX_LAYOUT_ATTEMPTS; attempt++) {
+    const { walls, doorways } = generateWalls(floor, world, rng);
+    const layout = analyzeLayout(walls, world, PLAYER_SPAWN, doorways);
+    if (isReachableNear(layout.grid, layout.reached, doorPosFor(world), 0)) return layout;
+  }
+  return analyzeLayout(borderWalls(world), world);
+};
+
+const screensIn = (world: Size) => (world.width * world.height) / (CANVAS_WIDTH * CANVAS_HEIGHT);
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+const MIN_WAYPOINT_SPACING = 80;
+
+const listCells = (cells: Uint8Array) => {
+  const out: number[] = [];
+  cells.forEach((c, idx) => { if (c) out.push(idx); });
+  return out;
+};
+
+// Picks a random cell out of a list of open cell indices.
+const pickCell = (cells: number[], grid: WalkGrid, rng: Rng) => {
+  const idx = cells[rng.int(0, cells.length - 1)];
+  return cellToPoint(idx % grid.cols, Math.floor(idx / grid.cols));
+};
+
+export const patrolSpeed = (floor: number, speedScale = 1) => (1.5 + floor * 0.2) * speedScale;
+
+export const createGuard = (id: string, path: Point[], speed: number): Guard => ({
+  id,
+  pos: { ...path[0] },
+  path,
+  currentPathIndex: 1,
+  speed,
+  facing: Math.atan2(path[1].y - path[0].y, path[1].x - path[0].x),
+  mode: 'patrol',
+  suspicion: 0,
+  lastKnownPos: null,
+  modeTimer: 0,
+  route: [],
+  routeGoal: null,
+  stunTimer: 0,
+});
+
+export const generateGuards = (floor: number, layout: FloorLayout, rng: Rng, maxGuards = 5, speedScale = 1): Guard[] => {
+  const guards: Guard[] = [];
+  const numGuards = Math.min(1 + Math.floor(floor / 2), maxGuards);
+  const grid = getNavGrid(layout.walls, layout.world);
+  const openCells = listCells(grid.open);
+  if (openCells.length === 0) return guards;
+
+  for (let i = 0; i < numGuards; i++) {
+    let start: Point | null = null;
+    for (let attempt = 0; attempt < MAX_PLACEMENT_ATTEMPTS && !start; attempt++) {
+      const candidate = pickCell(openCells, grid, rng);
+      if (distance(candidate, PLAYER_SPAWN) >= GUARD_SPAWN_CLEARANCE) start = candidate;
+    }
+    if (!start) continue;
+
+    // Patrol waypoints stay inside the region the guard can walk to, so A*
+    // always finds a corridor between them.
+    const region = listCells(floodFill(grid, start));
+    const path = [start];
+    const numWaypoints = rng.int(2, 4);
+    for (let w = 1; w < numWaypoints; w++) {
+      for (let attempt = 0; attempt < MAX_PLACEMENT_ATTEMPTS; attempt++) {
+        const candidate = pickCell(region, grid, rng);
+        if (distance(candidate, path[path.length - 1]) >= MIN_WAYPOINT_SPACING) {
+          path.push(candidate);
+          break;
+        }
+      }
+    }
+    if (path.length < 2) continue;
+
+    guards.push(createGuard(`guard-${i}`, path, patrolSpeed(floor, speedScale)));
+  }
+  return guards;
+};
+
+// A spot clear of walls that the player can pick up from. Falls back to the
+// middle of a cell the player can stand on.
+const placePickup = (layout: FloorLayout, reachableCells: number[], rng: Rng): Point => {
+  const { world, walls, grid, reached } = layout;
+  for (let attempt = 0; attempt < MAX_PLACEMENT_ATTEMPTS; attempt++) {
+    const candidate = {
+      x: 40 + rng.next() * (world.width - 80),
+      y: 40 + rng.next() * (world.height - 80)
+    };
+    const clearOfWalls = !walls.some(w =>
+      candidate.x > w.x - 20 && candidate.x < w.x + w.w + 20 &&
+      candidate.y > w.y - 20 && candidate.y < w.y + w.h + 20
+    );
+    if (clearOfWalls && isReachableNear(grid, reached, candidate, PICKUP_RADIUS)) return candidate;
+  }
+  const cell = pickCell(reachableCells, grid, rng);
+  return { x: cell.x + PLAYER_SIZE / 2, y: cell.y + PLAYER_SIZE / 2 };
+};
+
+export const generateMoney = (floor: number, layout: FloorLayout, rng: Rng): Money[] => {
+  const money: Money[] = [];
+  // A couple of extra bills for every screen beyond the first.
+  const numBills = 5 + floor * 2 + Math.round((screensIn(layout.world) - 1) * 2);
+  const reachableCells = listCells(layout.reached);
+
+  for (let i = 0; i < numBills; i++) {
+    money.push({
+      id: `money-${i}`,
+      pos: placePickup(layout, reachableCells, rng),
+      value: 100 * floor,
+      collected: false
+    });
+  }
+  return money;
+};
+
+export const generateFragments = (lock: Lock, layout: FloorLayout, rng: Rng): PasswordFragment[] => {
+  const reachableCells = listCells(layout.reached);
+  return lock.fragmentSlots.map((digitIndex, i) => ({
+    id: `fragment-${i}`,
+    pos: placePickup(layout, reachableCells, rng),
+    kind: randomFragmentKind(rng),
+    digitIndex,
+    collected: false,
+  }));
+};
+
+const VAULT_SIZE = { width: 50, height: 36 };
+const MAX_VAULT_ATTEMPTS = 5; // each one rebuilds the walk grid
+
+// Spots a robber can stand on to hack each side of a vault.
+const vaultSides = (r: Wall): Point[] => [
+  { x: r.x - PLAYER_SIZE - 4, y: r.y + r.h / 2 - PLAYER_SIZE / 2 },
+  { x: r.x + r.w + 4, y: r.y + r.h / 2 - PLAYER_SIZE / 2 },
+  { x: r.x + r.w / 2 - PLAYER_SIZE / 2, y: r.y - PLAYER_SIZE - 4 },
+  { x: r.x + r.w / 2 - PLAYER_SIZE / 2, y: r.y + r.h + 4 },
+];
+
+/**
+ * Cameras, vaults, lasers and alarm panels, more of each on later floors.
+ * Vaults are solid, so they join the walls and the returned layout replaces
+ * the one passed in. Floor 1 has none and draws nothing from the RNG.
+ */
+export const generateSecurity = (floor: number, input: FloorLayout, rng: Rng) => {
+  let layout = input;
+  const { world } = layout;
+  const cols = Math.round(world.width / ROOM_WIDTH);
+  const rows = Math.round(world.height / ROOM_HEIGHT);
+  const rooms = cols * rows;
+  const roomOrigin = (room: number) => ({ x: (room % cols) * ROOM_WIDTH, y: Math.floor(room / cols) * ROOM_HEIGHT });
+  // Anywhere but the room the robber starts in.
+  const pickRoom = () => (rooms > 1 ? rng.int(1, rooms - 1) : 0);
+
+  const cameras: SecurityCamera[] = [];
+  const numCameras = floor >= 2 ? Math.min(floor - 1, rooms - 1, 6) : 0;
+  for (let i = 0; i < numCameras; i++) {
+    // Up in one of the room's corners, looking across it.
+    const origin = roomOrigin(pickRoom());
+    const right = rng.next() < 0.5;
+    const bottom = rng.next() < 0.5;
+    const pos = { x: origin.x + (right ? ROOM_WIDTH - 12 : 12), y: origin.y + (bottom ? ROOM_HEIGHT - 12 : 12) };
+    cameras.push({
+      id: `camera-${i}`,
+      pos,
+      baseAngle: Math.atan2(origin.y + ROOM_HEIGHT / 2 - pos.y, origin.x + ROOM_WIDTH / 2 - pos.x),
+      sweep: 0.4 + rng.next() * 0.4,
+      sweepSpeed: 0.6 + rng.next() * 0.6,
+      phase: rng.next() * Math.PI * 2,
+      suspicion: 0,
+      disabledTimer: 0,
+    });
+  }
+
+  const vaults: Vault[] = [];
+  const numVaults = floor >= 2 ? (floor >= 6 ? 2 : 1) : 0;
+  const zones = keepClear(world);
+  for (let i = 0; i < numVaults; i++) {
+    for (let attempt = 0; attempt < MAX_VAULT_ATTEMPTS; attempt++) {
+      const origin = roomOrigin(pickRoom());
+      const rect = {
+        x: origin.x + rng.int(OBSTACLE_MARGIN, ROOM_WIDTH - OBSTACLE_MARGIN - VAULT_SIZE.width),
+        y: origin.y + rng.int(OBSTACLE_MARGIN, ROOM_HEIGHT - OBSTACLE_MARGIN - VAULT_SIZE.height),
+        w: VAULT_SIZE.width,
+        h: VAULT_SIZE.height,
+      };
+      if (zones.some(zone => overlaps(zone, rect))) continue;
+      const next = analyzeLayout([...layout.walls, rect], world, PLAYER_SPAWN, layout.doorways);
+      const hackable = vaultSides(rect).some(p => isReachableNear(next.grid, next.reached, p, 8));
+      if (hackable && isReachableNear(next.grid, next.reached, doorPosFor(world), 0)) {
+        layout = next;
+        vaults.push({ id: `vault-${i}`, rect, value: 800 * floor, progress: 0, opened: false });
+        break;
+      }
+    }
+  }
+
+  const lasers: LaserGrid[] = [];
+  const numLasers = floor >= 3 ? Math.min(floor - 2, layout.doorways.length, 5) : 0;
+  const doorways = [...layout.doorways];
+  for (let i = 0; i < numLasers; i++) {
+    const [rect] = doorways.splice(rng.int(0, doorways.length - 1), 1);
+    const period = 2.5 + rng.next() * 1.5;
+    lasers.push({ id: `laser-${i}`, rect: { ...rect }, period, onTime: period / 2, phase: rng.next() * period, disabledTimer: 0 });
+  }
+
+  const alarmPanels: AlarmPanel[] = [];
+  const numPanels = floor >= 3 ? (floor >= 6 ? 2 : 1) : 0;
+  const reachableCells = listCells(layout.reached);
+  for (let i = 0; i < numPanels; i++) {
+    alarmPanels.push({ id: `panel-${i}`, pos: placePickup(layout, reachableCells, rng), status: 'armed' });
+  }
+
+  return { layout, cameras, vaults, lasers, alarmPanels };
+};
+
+// A lamp in every other room, checkerboard fashion, so some rooms stay dark to
+// sneak through. It hangs in the middle unless an obstacle or vault covers
+// that spot, then over the first clear quarter of the room.
+const LAMP_SPOTS = [[0.5, 0.5], [0.25, 0.25], [0.75, 0.25], [0.25, 0.75], [0.75, 0.75]];
+
+const placeLamps = (world: Size, walls: Wall[]): Point[] => {
+  const lamps: Point[] = [];
+  for (let r = 0; r < Math.round(world.height / ROOM_HEIGHT); r++) {
+    for (let c = 0; c < Math.round(world.width / ROOM_WIDTH); c++) {
+      if ((c + r) % 2) continue;
+      const pos = LAMP_SPOTS
+        .map(([fx, fy]) => ({ x: (c + fx) * ROOM_WIDTH, y: (r + fy) * ROOM_HEIGHT }))
+        .find(p => !collidesWithWalls(p.x - 4, p.y - 4, 8, walls));
+      if (pos) lamps.push(pos);
+    }
+  }
+  return lamps;
+};
+
+// The generators always draw from the floor RNG in the same order.
+const buildProceduralFloor = (seed: string, floor: number, settings: ModeSettings) => {
+  const rng = createFloorRng(seed, floor);
+  const { layout, cameras, vaults, lasers, alarmPanels } = generateSecurity(floor, generateLayout(floor, rng), rng);
+  const { world, walls } = layout;
+  const money = generateMoney(floor, layout, rng);
+  const guards = generateGuards(floor, layout, rng, settings.maxGuards, settings.guardSpeed);
+  const lock = generateLock(floor, rng);
+  const fragments = generateFragments(lock, layout, rng);
+  return {
+    currentFloor: floor,
+    playerPos: { ...PLAYER_SPAWN },
+    spawnPos: { ...PLAYER_SPAWN },
+    money,
+    world,
+    walls,
+    guards,
+    password: lock.password,
+    lockType: lock.lockType,
+    fragments,
+    lastPasswordFound: hiddenCode(),
+    foundPassword: false,
+    doorPos: doorPosFor(world),
+    cameras,
+    lasers,
+    vaults,
+    alarmPanels,
+    alarmTimer: 0,
+    lamps: placeLamps(world, walls),
+    // Half a floor's time again for every extra screen to cover.
+    timeLeft: INITIAL_TIME_PER_FLOOR * (1 + (screensIn(world) - 1) / 2) * settings.timeScale,
+  };
+};
+
+// Authored floors still use the floor RNG for whatever the level leaves open.
+const buildLevelFloor = (level: LevelDefinition, seed: string, floor: number, settings: ModeSettings) => {
+  const rng = createFloorRng(seed, floor);
+  const world = { ...(level.world ?? DEFAULT_WORLD) };
+  const walls = level.walls.map(w => ({ ...w }));
+  const lock = generateLock(floor, rng, level.lock.type, level.lock.password);
+  const fragments = level.lock.fragments
+    ? level.lock.fragments.map((f, i) => ({ id: `fragment-${i}`, pos: { ...f.pos }, kind: f.kind, digitIndex: f.digitIndex, collected: false }))
+    : generateFragments(lock, analyzeLayout(walls, world, level.spawn), rng);
+  return {
+    currentFloor: floor,
+    playerPos: { ...level.spawn },
+    spawnPos: { ...level.spawn },
+    money: level.money.map((m, i) => ({ id: `money-${i}`, pos: { ...m.pos }, value: m.value, collected: false })),
+    world,
+    walls,
+    guards: level.guards.map((g, i) => createGuard(`guard-${i}`, g.path.map(p => ({ ...p })), g.speed * settings.guardSpeed)),
+    password: lock.password,
+    lockType: lock.lockType,
+    fragments,
+    lastPasswordFound: hiddenCode(),
+    foundPassword: false,
+    doorPos: { ...level.door },
+    cameras: [] as SecurityCamera[],
+    lasers: [] as LaserGrid[],
+    vaults: [] as Vault[],
+    alarmPanels: [] as AlarmPanel[],
+    alarmTimer: 0,
+    lamps: (level.lamps ?? []).map(p => ({ ...p })),
+    timeLeft: level.timeLimit * settings.timeScale,
+  };
+};
+
+const buildFloor = (seed: string, floor: number, campaign: string, config: GameConfig) => {
+  const settings = settingsFor(config);
+  const level = getCampaignLevel(campaign, floor);
+  return level ? buildLevelFloor(level, seed, floor, settings) : buildProceduralFloor(seed, floor, settings);
+};
+
+export const createStats = (): RunStats => ({
+  billsCollected: 0,
+  billsAvailable: 0,
+  nearMisses: 0,
+  wrongCodes: 0,
+  floorTimes: [],
+  floorElapsed: 0,
+  floorLoot: 0,
+  loot: 0,
+  elapsed: 0,
+  closeGuards: [],
+  lootBy: [0, 0],
+  floorLootBy: [0, 0],
+});
+
+export const createInitialState = (
+  seed: string,
+  campaign: string = DEFAULT_CAMPAIGN,
+  config: GameConfig = DEFAULT_CONFIG,
+): GameState => {
+  // Modes without authored floors start straight on procedural ones.
+  const runCampaign = settingsFor(config).campaign ? campaign : '';
+  const floor = buildFloor(seed, 1, runCampaign, config);
+  const stats = createStats();
+  return {
+    ...floor,
+    seed,
+    config,
+    campaign: runCampaign,
+    score: 0,
+    isPaused: false,
+    isGameOver: false,
+    showTerminal: false,
+    showShop: false,
+    ...createAbilityState(),
+    noises: [],
+    noiseLevel: 0,
+    lastFloor: null,
+    upgrades: createUpgrades(),
+    lives: settingsFor(config).lives,
+    busted: null,
+    partner: config.coop ? createPartner(floor.spawnPos, floor.walls) : null,
+    downed: null,
+    gameOverReason: null,
+    stats: { ...stats, billsAvailable: floor.money.length },
+  };
+};
+
+export const advanceFloor = (state: GameState): GameState => {
+  const floor = buildFloor(state.seed, state.currentFloor + 1, state.campaign, state.config);
+  const { stats } = state;
+  const lastFloor: FloorSummary = {
+    floor: state.currentFloor,
+    loot: stats.floorLoot,
+    bills: state.money.filter(m => m.collected).length,
+    billsAvailable: state.money.length,
+    time: stats.floorElapsed,
+    timeLeft: state.timeLeft,
+  };
+  return applyFloorUpgrades({
+    ...state,
+    ...floor,
+    lastFloor,
+    timeLeft: settingsFor(state.config).carryTime ? floor.timeLeft + state.timeLeft : floor.timeLeft,
+    // Gadgets carry over; lingering smoke, noise and a tired robber don't.
+    stamina: 1,
+    partner: state.partner && createPartner(floor.spawnPos, floor.walls),
+    downed: null,
+    effects: [],
+    noises: [],
+    noiseLevel: 0,
+    stats: {
+      ...stats,
+      billsAvailable: stats.billsAvailable + floor.money.length,
+      floorTimes: [...stats.floorTimes, stats.floorElapsed],
+      floorElapsed: 0,
+      floorLoot: 0,
+      floorLootBy: [0, 0],
+      closeGuards: [],
+    },
+  });
+};
@@ -0,0 +1,100 @@
+import { Point, Wall } from '../types';
+
+export const collidesWithWalls = (x: number, y: number, size: number, walls: Wall[]) =>
+  walls.some(w =>
+    x + size > w.x && x < w.x + w.w &&
+    y + size > w.y && y < w.y + w.h
+  );
+
+/**
+ * Distance along the ray from `origin` at `angle` to the first wall it hits,
+ * capped at `maxDist` (slab method against each wall rectangle).
+ */
+export const castRay = (origin: Point, angle: number, maxDist: number, walls: Wall[]) => {
+  const dx = Math.cos(angle);
+  const dy = Math.sin(angle);
+  let nearest = maxDist;
+  for (const w of walls) {
+    let tMin = 0;
+    let tMax = nearest;
+    if (Math.abs(dx) < 1e-9) {
+      if (origin.x < w.x || origin.x > w.x + w.w) continue;
+    } else {
+      const t1 = (w.x - origin.x) / dx;
+      const t2 = (w.x + w.w - origin.x) / dx;
+      tMin = Math.max(tMin, Math.min(t1, t2));
+      tMax = Math.min(tMax, Math.max(t1, t2));
+    }
+    if (Math.abs(dy) < 1e-9) {
+      if (origin.y < w.y || origin.y > w.y + w.h) continue;
+    } else {
+      const t1 = (w.y - origin.y) / dy;
+      const t2 = (w.y + w.h - origin.y) / dy;
+      tMin = Math.max(tMin, Math.min(t1, t2));
+      tMax = Math.min(tMax, Math.max(t1, t2));
+    }
+    if (tMin <= tMax) nearest = tMin;
+  }
+  return nearest;
+};
+
+export const hasLineOfSight = (from: Point, to: Point, walls: Wall[]) => {
+  const dist = Math.hypot(to.x - from.x, to.y - from.y);
+  return castRay(from, Math.atan2(to.y - from.y, to.x - from.x), dist, walls) >= dist;
+};
+
+/**
+ * What can be seen from `origin` out to `radius`, as a fan of points in angle
+ * order. Besides an even sweep, rays go to every wall corner in reach and just
+ * either side of it, so shadow edges come out sharp.
+ */
+export const visibilityPolygon = (origin: Point, radius: number, walls: Wall[], sweep = 48): Point[] => {
+  const near = walls.filter(w =>
+    w.x < origin.x + radius && w.x + w.w > origin.x - radius &&
+    w.y < origin.y + radius && w.y + w.h > origin.y - radius
+  );
+  const angles: number[] = [];
+  for (let i = 0; i < sweep; i++) angles.push(-Math.PI + (2 * Math.PI * i) / sweep);
+  near.forEach(w => {
+    [[w.x, w.y], [w.x + w.w, w.y], [w.x, w.y + w.h], [w.x + w.w, w.y + w.h]].forEach(([x, y]) => {
+      const a = Math.atan2(y - origin.y, x - origin.x);
+      angles.push(a - 1e-4, a, a + 1e-4);
+    });
+  });
+  angles.sort((a, b) => a - b);
+  return angles.map(a => {
+    const dist = castRay(origin, a, radius, near);
+    return { x: origin.x + Math.cos(a) * dist, y: origin.y + Math.sin(a) * dist };
+  });
+};
+
+/** How many walls the straight line from `from` to `to` passes through. */
+export const wallsBetween = (from: Point, to: Point, walls: Wall[]) => {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  return walls.filter(w => {
+    let tMin = 0;
+    let tMax = 1;
+    for (const [o, d, lo, hi] of [[from.x, dx, w.x, w.x + w.w], [from.y, dy, w.y, w.y + w.h]]) {
+      if (Math.abs(d) < 1e-9) {
+        if (o < lo || o > hi) return false;
+        continue;
+      }
+      const t1 = (lo - o) / d;
+      const t2 = (hi - o) / d;
+      tMin = Math.max(tMin, Math.min(t1, t2));
+      tMax = Math.min(tMax, Math.max(t1, t2));
+    }
+    return tMin <= tMax;
+  }).length;
+};
+
+/** Smallest signed difference between two angles, in (-PI, PI]. */
+export const angleDiff = (a: number, b: number) => {
+  let d = (a - b) % (Math.PI * 2);
+  if (d > Math.PI) d -= Math.PI * 2;
+  if (d <= -Math.PI) d += Math.PI * 2;
+  return d;
+};
+
+export const center = (pos: Point, size: number): Point => ({ x: pos.x + size / 2, y: pos.y + size / 2 });
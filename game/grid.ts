@@ -0,0 +1,78 @@
+import { Point, Size, Wall } from '../types';
+import { collidesWithWalls } from './geometry';
+
+export const GRID_CELL = 10;
+
+// A coarse walkability map: a cell is open when a box of `size` with its
+// top-left corner on the cell's corner does not overlap any wall. Moving
+// between two adjacent open cells only sweeps through the union of both boxes,
+// so 4-connected open cells are mutually reachable.
+export interface WalkGrid {
+  cols: number;
+  rows: number;
+  size: number;
+  open: Uint8Array;
+}
+
+export const buildWalkGrid = (walls: Wall[], size: number, world: Size): WalkGrid => {
+  const cols = Math.floor(world.width / GRID_CELL);
+  const rows = Math.floor(world.height / GRID_CELL);
+  const open = new Uint8Array(cols * rows);
+  for (let cy = 0; cy < rows; cy++) {
+    for (let cx = 0; cx < cols; cx++) {
+      const x = cx * GRID_CELL;
+      const y = cy * GRID_CELL;
+      const inBounds = x + size <= world.width && y + size <= world.height;
+      open[cy * cols + cx] = inBounds && !collidesWithWalls(x, y, size, walls) ? 1 : 0;
+    }
+  }
+  return { cols, rows, size, open };
+};
+
+export const toCell = (p: Point) => ({ cx: Math.round(p.x / GRID_CELL), cy: Math.round(p.y / GRID_CELL) });
+
+export const cellToPoint = (cx: number, cy: number): Point => ({ x: cx * GRID_CELL, y: cy * GRID_CELL });
+
+export const isOpen = (grid: WalkGrid, cx: number, cy: number) =>
+  cx >= 0 && cy >= 0 && cx < grid.cols && cy < grid.rows && grid.open[cy * grid.cols + cx] === 1;
+
+export const NEIGHBOURS = [[1, 0], [-1, 0], [0, 1], [0, -1]] as const;
+
+/** Marks every open cell reachable from `start` with 1. */
+export const floodFill = (grid: WalkGrid, start: Point): Uint8Array => {
+  const reached = new Uint8Array(grid.cols * grid.rows);
+  const { cx, cy } = toCell(start);
+  if (!isOpen(grid, cx, cy)) return reached;
+
+  const queue = [cy * grid.cols + cx];
+  reached[queue[0]] = 1;
+  for (let head = 0; head < queue.length; head++) {
+    const idx = queue[head];
+    const x = idx % grid.cols;
+    const y = Math.floor(idx / grid.cols);
+    for (const [dx, dy] of NEIGHBOURS) {
+      const nx = x + dx;
+      const ny = y + dy;
+      const n = ny * grid.cols + nx;
+      if (isOpen(grid, nx, ny) && !reached[n]) {
+        reached[n] = 1;
+        queue.push(n);
+      }
+    }
+  }
+  return reached;
+};
+
+/** True when any reached cell lies within `radius` (per axis) of `p`. */
+export const isReachableNear = (grid: WalkGrid, reached: Uint8Array, p: Point, radius: number) => {
+  const minX = Math.ceil((p.x - radius) / GRID_CELL);
+  const maxX = Math.floor((p.x + radius) / GRID_CELL);
+  const minY = Math.ceil((p.y - radius) / GRID_CELL);
+  const maxY = Math.floor((p.y + radius) / GRID_CELL);
+  for (let cy = Math.max(0, minY); cy <= Math.min(grid.rows - 1, maxY); cy++) {
+    for (let cx = Math.max(0, minX); cx <= Math.min(grid.cols - 1, maxX); cx++) {
+      if (reached[cy * grid.cols + cx]) return true;
+    }
+  }
+  return false;
+};
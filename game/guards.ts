@@ -0,0 +1,167 @@
+import { GameEvent, Guard, Point, Size, Wall } from '../types';
+import {
+  CHASE_SPEED_MULTIPLIER, GUARD_SIZE, PLAYER_SIZE, SEARCH_DURATION, SUSPICION_DECAY, SUSPICION_RATE,
+  TOUCH_DISTANCE, VIEW_DISTANCE, VIEW_HALF_ANGLE,
+} from './constants';
+import { angleDiff, center, collidesWithWalls, hasLineOfSight } from './geometry';
+import { GRID_CELL } from './grid';
+import { findPath } from './navigation';
+
+// Guard perception and the patrol -> suspicious -> alert -> search -> return
+// state machine.
+
+/** What a guard can pick up about the robber this tick, beyond its own eyes. */
+export interface Perception {
+  visibility: number; // 1 normally, less when crouching, 0 when hidden in smoke
+  noise: Point | null; // where the clearest noise it heard this tick came from (see noise.ts)
+}
+
+export const DEFAULT_PERCEPTION: Perception = { visibility: 1, noise: null };
+
+export const canSeePlayer = (g: Guard, playerPos: Point, walls: Wall[], visibility = 1) => {
+  if (visibility <= 0) return false;
+  const eye = center(g.pos, GUARD_SIZE);
+  const target = center(playerPos, PLAYER_SIZE);
+  const dist = Math.hypot(target.x - eye.x, target.y - eye.y);
+  if (dist <= TOUCH_DISTANCE) return true;
+  if (dist > VIEW_DISTANCE * visibility) return false;
+  const bearing = Math.atan2(target.y - eye.y, target.x - eye.x);
+  if (Math.abs(angleDiff(bearing, g.facing)) > VIEW_HALF_ANGLE) return false;
+  return hasLineOfSight(eye, target, walls);
+};
+
+// Steps towards `target`, sliding along walls one axis at a time.
+const moveToward = (g: Guard, target: Point, speed: number, walls: Wall[]) => {
+  const dx = target.x - g.pos.x;
+  const dy = target.y - g.pos.y;
+  const dist = Math.sqrt(dx * dx + dy * dy);
+  if (dist < 1e-6) return { pos: g.pos, facing: g.facing };
+
+  const stepLen = Math.min(speed, dist);
+  let { x, y } = g.pos;
+  const nx = x + (dx / dist) * stepLen;
+  const ny = y + (dy / dist) * stepLen;
+  if (!collidesWithWalls(nx, y, GUARD_SIZE, walls)) x = nx;
+  if (!collidesWithWalls(x, ny, GUARD_SIZE, walls)) y = ny;
+  return { pos: { x, y }, facing: Math.atan2(dy, dx) };
+};
+
+const REPLAN_DISTANCE = GRID_CELL * 2;
+
+// Follows an A* route to `goal`, replanning only when the goal has drifted
+// away from the one the current route was planned for.
+const navigateToward = (
+  g: Guard,
+  goal: Point,
+  speed: number,
+  walls: Wall[],
+  world: Size,
+): { arrived: boolean; update: Partial<Guard> } => {
+  if (Math.hypot(goal.x - g.pos.x, goal.y - g.pos.y) < 5) {
+    return { arrived: true, update: { route: [], routeGoal: null } };
+  }
+
+  let route = g.route;
+  let routeGoal = g.routeGoal;
+  if (!routeGoal || Math.hypot(goal.x - routeGoal.x, goal.y - routeGoal.y) > REPLAN_DISTANCE) {
+    // Without a route the guard heads straight for the goal, sliding along walls.
+    route = findPath(walls, world, g.pos, goal) ?? [];
+    routeGoal = { ...goal };
+  }
+  while (route.length > 0 && Math.hypot(route[0].x - g.pos.x, route[0].y - g.pos.y) < Math.max(speed, 1)) {
+    route = route.slice(1);
+  }
+
+  const moved = moveToward(g, route[0] ?? goal, speed, walls);
+  // Out of waypoints and pinned against a wall: the goal is as close as it gets.
+  const stuck = route.length === 0 && moved.pos.x === g.pos.x && moved.pos.y === g.pos.y;
+  return { arrived: stuck, update: { pos: moved.pos, facing: moved.facing, route, routeGoal } };
+};
+
+const turnToward = (facing: number, target: number, maxTurn: number) => {
+  const d = angleDiff(target, facing);
+  return facing + Math.max(-maxTurn, Math.min(maxTurn, d));
+};
+
+export const updateGuard = (
+  g: Guard,
+  playerPos: Point,
+  walls: Wall[],
+  world: Size,
+  dt: number,
+  scale: number,
+  perception: Perception = DEFAULT_PERCEPTION,
+): { guard: Guard; events: GameEvent[] } => {
+  const events: GameEvent[] = [];
+  if (g.stunTimer > 0) {
+    // Frozen: no moving, no seeing, and whatever it was sure of is fading.
+    const stunTimer = Math.max(0, g.stunTimer - dt);
+    return { guard: { ...g, stunTimer, suspicion: Math.max(0, g.suspicion - SUSPICION_DECAY * dt) }, events };
+  }
+
+  const sees = canSeePlayer(g, playerPos, walls, perception.visibility);
+  // A noise it can't see the source of sends the guard to look. Chasing
+  // guards are already on it.
+  if (!sees && perception.noise && g.mode !== 'alert') {
+    if (g.mode === 'patrol' || g.mode === 'return') events.push({ type: 'guardSuspicious', guardId: g.id });
+    const heardAt = { x: perception.noise.x - PLAYER_SIZE / 2, y: perception.noise.y - PLAYER_SIZE / 2 };
+    g = { ...g, mode: 'search', lastKnownPos: heardAt, modeTimer: SEARCH_DURATION };
+  }
+
+  const seenAt = sees ? { ...playerPos } : g.lastKnownPos;
+  const suspicion = sees
+    ? Math.min(1, g.suspicion + SUSPICION_RATE * perception.visibility * dt)
+    : Math.max(0, g.suspicion - SUSPICION_DECAY * dt);
+  const next: Guard = { ...g, suspicion, lastKnownPos: seenAt };
+  const chaseSpeed = g.speed * CHASE_SPEED_MULTIPLIER * scale;
+
+  switch (g.mode) {
+    case 'patrol':
+    case 'return': {
+      if (sees) {
+        events.push({ type: 'guardSuspicious', guardId: g.id });
+        return { guard: { ...next, mode: 'suspicious' }, events };
+      }
+      const moved = navigateToward(g, g.path[g.currentPathIndex], g.speed * scale, walls, world);
+      if (moved.arrived) {
+        // A returning guard picks its route back up where it left it.
+        const currentPathIndex = g.mode === 'patrol' ? (g.currentPathIndex + 1) % g.path.length : g.currentPathIndex;
+        return { guard: { ...next, mode: 'patrol', currentPathIndex, route: [], routeGoal: null }, events };
+      }
+      return { guard: { ...next, ...moved.update }, events };
+    }
+
+    case 'suspicious': {
+      if (suspicion >= 1) {
+        events.push({ type: 'guardAlerted', guardId: g.id });
+        return { guard: { ...next, mode: 'alert' }, events };
+      }
+      if (suspicion <= 0) return { guard: { ...next, mode: 'return' }, events };
+      const look = seenAt ? center(seenAt, PLAYER_SIZE) : null;
+      const eye = center(g.pos, GUARD_SIZE);
+      const facing = look ? turnToward(g.facing, Math.atan2(look.y - eye.y, look.x - eye.x), 0.1 * scale) : g.facing;
+      return { guard: { ...next, facing }, events };
+    }
+
+    case 'alert': {
+      if (!sees) return { guard: { ...next, mode: 'search', modeTimer: SEARCH_DURATION }, events };
+      const moved = navigateToward(g, playerPos, chaseSpeed, walls, world);
+      return { guard: { ...next, ...moved.update }, events };
+    }
+
+    case 'search': {
+      if (sees) {
+        events.push({ type: 'guardAlerted', guardId: g.id });
+        return { guard: { ...next, mode: 'alert', suspicion: 1 }, events };
+      }
+      if (seenAt) {
+        const moved = navigateToward(g, seenAt, chaseSpeed, walls, world);
+        if (!moved.arrived) return { guard: { ...next, ...moved.update }, events };
+      }
+      // Look around the spot for a while before heading back.
+      const modeTimer = g.modeTimer - dt;
+      if (modeTimer <= 0) return { guard: { ...next, mode: 'return', modeTimer: 0, lastKnownPos: null }, events };
+      return { guard: { ...next, modeTimer, facing: g.facing + 2.5 * dt }, events };
+    }
+  }
+};
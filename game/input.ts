@@ -0,0 +1,296 @@
+import { AbilityId, Direction, Point, Posture, RobberIndex } from '../types';
+
+// Input layer: tracks every held action from the keyboard, the on-screen
+// controls and gamepads, and folds them into one normalized movement vector,
+// a posture, and one-shot ability presses per robber. In co-op the second
+// robber has fixed keys around the arrows and the second gamepad; everything
+// else drives the first.
+
+export type PostureAction = 'SPRINT' | 'CROUCH';
+export type AbilityAction = 'THROW' | 'SMOKE' | 'EMP';
+type MoveAction = Direction.UP | Direction.DOWN | Direction.LEFT | Direction.RIGHT;
+export type InputAction = MoveAction | 'PAUSE' | PostureAction | AbilityAction;
+
+export type KeyBindingMap = Record<InputAction, string[]>;
+
+export const BINDABLE_ACTIONS: InputAction[] = [
+  Direction.UP, Direction.DOWN, Direction.LEFT, Direction.RIGHT, 'PAUSE',
+  'SPRINT', 'CROUCH', 'THROW', 'SMOKE', 'EMP',
+];
+
+const ABILITY_ACTIONS: Record<AbilityAction, AbilityId> = { THROW: 'distraction', SMOKE: 'smoke', EMP: 'emp' };
+const isMoveAction = (a: InputAction): a is MoveAction => (Object.values(Direction) as string[]).includes(a);
+const isAbilityAction = (a: InputAction): a is AbilityAction => a in ABILITY_ACTIONS;
+
+export const DEFAULT_BINDINGS: KeyBindingMap = {
+  [Direction.UP]: ['KeyW', 'ArrowUp'],
+  [Direction.DOWN]: ['KeyS', 'ArrowDown'],
+  [Direction.LEFT]: ['KeyA', 'ArrowLeft'],
+  [Direction.RIGHT]: ['KeyD', 'ArrowRight'],
+  PAUSE: ['KeyP', 'Escape'],
+  SPRINT: ['ShiftLeft', 'ShiftRight'],
+  CROUCH: ['KeyC'],
+  THROW: ['KeyE'],
+  SMOKE: ['KeyQ'],
+  EMP: ['KeyR'],
+};
+
+// Taken over from the first robber's bindings while co-op is on.
+export const PARTNER_BINDINGS: Record<Exclude<InputAction, 'PAUSE'>, string[]> = {
+  [Direction.UP]: ['ArrowUp'],
+  [Direction.DOWN]: ['ArrowDown'],
+  [Direction.LEFT]: ['ArrowLeft'],
+  [Direction.RIGHT]: ['ArrowRight'],
+  SPRINT: ['ShiftRight'],
+  CROUCH: ['Slash'],
+  THROW: ['Period'],
+  SMOKE: ['Comma'],
+  EMP: ['KeyM'],
+};
+
+const BINDINGS_KEY = 'heist.keybindings';
+
+export const loadBindings = (): KeyBindingMap => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(BINDINGS_KEY) ?? 'null');
+    // Actions added since the bindings were saved get their default keys.
+    if (saved && typeof saved === 'object') {
+      return Object.fromEntries(BINDABLE_ACTIONS.map(a => [a, Array.isArray(saved[a]) ? saved[a] : DEFAULT_BINDINGS[a]])) as KeyBindingMap;
+    }
+  } catch (e) {
+    // Fall through to the defaults
+  }
+  return DEFAULT_BINDINGS;
+};
+
+export const saveBindings = (bindings: KeyBindingMap) => {
+  try {
+    localStorage.setItem(BINDINGS_KEY, JSON.stringify(bindings));
+  } catch (e) {
+    // Private mode or full storage: bindings just won't persist
+  }
+};
+
+/** Binds `code` as the primary key for `action`, taking it away from any other action. */
+export const rebind = (bindings: KeyBindingMap, action: InputAction, code: string): KeyBindingMap => {
+  const next = { ...bindings };
+  for (const a of BINDABLE_ACTIONS) next[a] = bindings[a].filter(c => c !== code);
+  next[action] = [code, ...next[action].slice(1)];
+  return next;
+};
+
+/** Human-readable label for a KeyboardEvent.code. */
+const ARROW_LABELS: Record<string, string> = { ArrowUp: '↑', ArrowDown: '↓', ArrowLeft: '←', ArrowRight: '→' };
+
+const SYMBOL_LABELS: Record<string, string> = { Slash: '/', Period: '.', Comma: ',' };
+
+export const keyLabel = (code: string) => ARROW_LABELS[code] ?? SYMBOL_LABELS[code] ?? code.replace(/^(Key|Digit)/, '');
+
+const STICK_DEADZONE = 0.2;
+const GAMEPAD_START = 9;
+const DPAD: [number, Direction][] = [[12, Direction.UP], [13, Direction.DOWN], [14, Direction.LEFT], [15, Direction.RIGHT]];
+// Standard mapping: RB sprints, LB crouches, X/Y/B fire the throw, smoke and EMP.
+const GAMEPAD_POSTURE: [number, PostureAction][] = [[5, 'SPRINT'], [4, 'CROUCH']];
+const GAMEPAD_ABILITIES: [number, AbilityAction][] = [[2, 'THROW'], [3, 'SMOKE'], [1, 'EMP']];
+
+const clampLength = (v: Point): Point => {
+  const len = Math.hypot(v.x, v.y);
+  return len > 1 ? { x: v.x / len, y: v.y / len } : v;
+};
+
+const digitalVector = (held: Set<Direction>): Point =>
+  clampLength({
+    x: (held.has(Direction.RIGHT) ? 1 : 0) - (held.has(Direction.LEFT) ? 1 : 0),
+    y: (held.has(Direction.DOWN) ? 1 : 0) - (held.has(Direction.UP) ? 1 : 0),
+  });
+
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable);
+
+export interface InputManager {
+  attach: () => () => void;
+  /** Reads gamepads; call once per animation frame. */
+  poll: () => void;
+  /** Current movement of `robber`, length in [0, 1]. */
+  getMoveVector: (robber?: RobberIndex) => Point;
+  setBindings: (bindings: KeyBindingMap) => void;
+  /** Hold or release a direction from the on-screen controls. */
+  setVirtualDirection: (dir: Direction, held: boolean) => void;
+  /** Virtual analog stick position, length in [0, 1]. */
+  setVirtualStick: (v: Point) => void;
+  /** Hold or release sprint or crouch from the on-screen controls. */
+  setVirtualPosture: (action: PostureAction, held: boolean) => void;
+  /** Crouch wins when both are held. */
+  getPosture: (robber?: RobberIndex) => Posture;
+  /** Splits the keyboard and gamepads between two robbers. */
+  setCoop: (coop: boolean) => void;
+  onPause: (listener: () => void) => void;
+  onAbility: (listener: (ability: AbilityId, robber: RobberIndex) => void) => void;
+  clear: () => void;
+}
+
+// What one gamepad is doing this frame.
+interface PadReading {
+  move: Point;
+  posture: Set<PostureAction>;
+  abilities: Set<AbilityAction>;
+  start: boolean;
+}
+
+const readPad = (pad: Gamepad): PadReading => {
+  const posture = new Set<PostureAction>();
+  const abilities = new Set<AbilityAction>();
+  GAMEPAD_POSTURE.forEach(([button, action]) => { if (pad.buttons[button]?.pressed) posture.add(action); });
+  GAMEPAD_ABILITIES.forEach(([button, action]) => { if (pad.buttons[button]?.pressed) abilities.add(action); });
+
+  const held = new Set<Direction>();
+  DPAD.forEach(([button, dir]) => { if (pad.buttons[button]?.pressed) held.add(dir); });
+  let move = digitalVector(held);
+  const stick = { x: pad.axes[0] ?? 0, y: pad.axes[1] ?? 0 };
+  if (move.x === 0 && move.y === 0 && Math.hypot(stick.x, stick.y) > STICK_DEADZONE) move = clampLength(stick);
+  return { move, posture, abilities, start: !!pad.buttons[GAMEPAD_START]?.pressed };
+};
+
+// Several pads driving one robber: the strongest push wins, buttons add up.
+const mergePads = (readings: PadReading[]): PadReading => readings.reduce((a, b) => ({
+  move: Math.hypot(b.move.x, b.move.y) > Math.hypot(a.move.x, a.move.y) ? b.move : a.move,
+  posture: new Set([...a.posture, ...b.posture]),
+  abilities: new Set([...a.abilities, ...b.abilities]),
+  start: a.start || b.start,
+}), { move: { x: 0, y: 0 }, posture: new Set(), abilities: new Set(), start: false });
+
+export const createInputManager = (initialBindings: KeyBindingMap): InputManager => {
+  let bindings = initialBindings;
+  let coop = false;
+  const heldKeys = new Set<string>();
+  const partnerKeys = new Set<string>();
+  const virtualHeld = new Set<Direction>();
+  let virtualStick: Point = { x: 0, y: 0 };
+  const virtualPosture = new Set<PostureAction>();
+  let pauseListener: () => void = () => {};
+  let abilityListener: (ability: AbilityId, robber: RobberIndex) => void = () => {};
+  // Per robber; in solo every pad drives the first.
+  let pads: PadReading[] = [mergePads([]), mergePads([])];
+  let gamepadStartWasDown = false;
+
+  const actionFor = (code: string) => BINDABLE_ACTIONS.find(a => bindings[a].includes(code));
+  const partnerActionFor = (code: string) =>
+    coop ? (Object.keys(PARTNER_BINDINGS) as (keyof typeof PARTNER_BINDINGS)[]).find(a => PARTNER_BINDINGS[a].includes(code)) : undefined;
+
+  const clear = () => {
+    heldKeys.clear();
+    partnerKeys.clear();
+    virtualHeld.clear();
+    virtualPosture.clear();
+    virtualStick = { x: 0, y: 0 };
+  };
+
+  const isHeld = (action: PostureAction, robber: RobberIndex) =>
+    robber === 1
+      ? pads[1].posture.has(action) || [...partnerKeys].some(code => partnerActionFor(code) === action)
+      : virtualPosture.has(action) || pads[0].posture.has(action) || [...heldKeys].some(code => actionFor(code) === action);
+
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (isTyping(e.target)) return;
+    const partnerAction = partnerActionFor(e.code);
+    if (partnerAction) {
+      e.preventDefault();
+      if (isAbilityAction(partnerAction)) {
+        if (!e.repeat) abilityListener(ABILITY_ACTIONS[partnerAction], 1);
+      } else {
+        partnerKeys.add(e.code);
+      }
+      return;
+    }
+    const action = actionFor(e.code);
+    if (!action) return;
+    e.preventDefault();
+    if (action === 'PAUSE') {
+      if (!e.repeat) pauseListener();
+      return;
+    }
+    if (isAbilityAction(action)) {
+      if (!e.repeat) abilityListener(ABILITY_ACTIONS[action], 0);
+      return;
+    }
+    heldKeys.add(e.code);
+  };
+
+  const handleKeyUp = (e: KeyboardEvent) => {
+    heldKeys.delete(e.code);
+    partnerKeys.delete(e.code);
+  };
+
+  const keyboardVector = (robber: RobberIndex) => {
+    const held = new Set<Direction>();
+    (robber === 1 ? partnerKeys : heldKeys).forEach(code => {
+      const action = robber === 1 ? partnerActionFor(code) : actionFor(code);
+      if (action && isMoveAction(action)) held.add(action);
+    });
+    return digitalVector(held);
+  };
+
+  const poll = () => {
+    const connected = (typeof navigator.getGamepads === 'function' ? [...navigator.getGamepads()] : []).filter((p): p is Gamepad => !!p);
+    const readings = connected.map(readPad);
+    const next = coop ? [mergePads(readings.slice(0, 1)), mergePads(readings.slice(1))] : [mergePads(readings), mergePads([])];
+    const startDown = readings.some(r => r.start);
+    if (startDown && !gamepadStartWasDown) pauseListener();
+    gamepadStartWasDown = startDown;
+    next.forEach((reading, robber) => {
+      reading.abilities.forEach(action => {
+        if (!pads[robber].abilities.has(action)) abilityListener(ABILITY_ACTIONS[action], robber as RobberIndex);
+      });
+    });
+    pads = next;
+  };
+
+  return {
+    attach: () => {
+      window.addEventListener('keydown', handleKeyDown);
+      window.addEventListener('keyup', handleKeyUp);
+      // Keys released while the window is unfocused never fire keyup.
+      window.addEventListener('blur', clear);
+      return () => {
+        window.removeEventListener('keydown', handleKeyDown);
+        window.removeEventListener('keyup', handleKeyUp);
+        window.removeEventListener('blur', clear);
+      };
+    },
+    poll,
+    getMoveVector: (robber = 0) => {
+      const k = keyboardVector(robber);
+      const g = pads[robber].move;
+      if (robber === 1) return clampLength({ x: k.x + g.x, y: k.y + g.y });
+      const v = digitalVector(virtualHeld);
+      return clampLength({ x: k.x + v.x + g.x + virtualStick.x, y: k.y + v.y + g.y + virtualStick.y });
+    },
+    setBindings: (next) => {
+      bindings = next;
+      heldKeys.clear();
+    },
+    setVirtualDirection: (dir, held) => {
+      if (held) virtualHeld.add(dir);
+      else virtualHeld.delete(dir);
+    },
+    setVirtualStick: (v) => {
+      virtualStick = clampLength(v);
+    },
+    setVirtualPosture: (action, held) => {
+      if (held) virtualPosture.add(action);
+      else virtualPosture.delete(action);
+    },
+    getPosture: (robber = 0) => (isHeld('CROUCH', robber) ? 'crouch' : isHeld('SPRINT', robber) ? 'sprint' : 'walk'),
+    setCoop: (next) => {
+      coop = next;
+      clear();
+    },
+    onPause: (listener) => {
+      pauseListener = listener;
+    },
+    onAbility: (listener) => {
+      abilityListener = listener;
+    },
+    clear,
+  };
+};
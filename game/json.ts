@@ -0,0 +1,18 @@
+import { Point } from '../types';
+
+// Narrowing for data the game reads back from storage, files or the network.
+// None of it is trusted until each field it uses has been checked.
+
+/** `v` as an object whose fields can be checked, or null when it isn't one. */
+export const asObject = (v: unknown) =>
+  v && typeof v === 'object' && !Array.isArray(v) ? (v as Record<string, unknown>) : null;
+
+/** Whether `key` is one of `obj`'s own keys, e.g. a known id from a lookup table. */
+export const has = (obj: object, key: unknown) => typeof key === 'string' && Object.prototype.hasOwnProperty.call(obj, key);
+
+export const isNum = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+export const isPoint = (v: unknown): v is Point => {
+  const p = asObject(v);
+  return !!p && isNum(p.x) && isNum(p.y);
+};
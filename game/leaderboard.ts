@@ -0,0 +1,70 @@
+import { GameConfig, GameState } from '../types';
+import { asObject, isNum } from './json';
+import { configKey, DEFAULT_CONFIG } from './modes';
+
+// Local high-score tables, best score first. Each difficulty and mode has its own.
+// A run scores all the loot it picked up, whatever it then spent in the shop.
+
+export interface LeaderboardEntry {
+  score: number;
+  floor: number;
+  time: number; // seconds
+  seed: string;
+  date: string; // ISO timestamp
+}
+
+const LEADERBOARD_KEY = 'heist.leaderboard';
+export const LEADERBOARD_SIZE = 10;
+
+// Normal Classic keeps the key from before modes existed.
+const storageKey = (config: GameConfig) =>
+  configKey(config) === configKey(DEFAULT_CONFIG) ? LEADERBOARD_KEY : `${LEADERBOARD_KEY}.${configKey(config)}`;
+
+const isEntry = (v: unknown): v is LeaderboardEntry => {
+  const e = asObject(v);
+  return !!e && isNum(e.score) && isNum(e.floor) && isNum(e.time) && typeof e.seed === 'string' && typeof e.date === 'string';
+};
+
+export const loadLeaderboard = (config: GameConfig): LeaderboardEntry[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(storageKey(config)) ?? '[]');
+    return Array.isArray(saved) ? saved.filter(isEntry) : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+const byRank = (a: LeaderboardEntry, b: LeaderboardEntry) =>
+  b.score - a.score || b.floor - a.floor || a.time - b.time;
+
+export const entryFromRun = (state: GameState): LeaderboardEntry => ({
+  score: state.stats.loot,
+  floor: state.currentFloor,
+  time: state.stats.elapsed,
+  seed: state.seed,
+  date: new Date().toISOString(),
+});
+
+/**
+ * Adds a finished run to the table. `rank` is its 0-based position, or -1 when
+ * it didn't make the cut.
+ */
+export const recordRun = (entry: LeaderboardEntry, config: GameConfig) => {
+  const entries = [...loadLeaderboard(config), entry].sort(byRank).slice(0, LEADERBOARD_SIZE);
+  try {
+    localStorage.setItem(storageKey(config), JSON.stringify(entries));
+  } catch (e) {
+    // Storage unavailable: the table only lives for this session
+  }
+  return { entries, rank: entries.indexOf(entry) };
+};
+
+export const personalBests = (entries: LeaderboardEntry[]) => ({
+  score: Math.max(0, ...entries.map(e => e.score)),
+  floor: Math.max(0, ...entries.map(e => e.floor)),
+});
+
+export const formatTime = (seconds: number) => {
+  const s = Math.floor(seconds);
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+};
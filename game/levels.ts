@@ -0,0 +1,181 @@
+import { FragmentKind, LevelDefinition, LockType, Point, Size, Wall } from '../types';
+import { CANVAS_HEIGHT, CANVAS_WIDTH, DEFAULT_WORLD, GUARD_SIZE, PASSWORD_LENGTH, PLAYER_SIZE } from './constants';
+import { collidesWithWalls } from './geometry';
+import { buildWalkGrid, floodFill, isReachableNear } from './grid';
+import { asObject, isNum } from './json';
+
+// Validation for hand-authored level JSON. Every problem is reported with the
+// path of the offending field so designers can find it in the file.
+
+export interface LevelValidation {
+  level: LevelDefinition | null; // null when there are errors
+  errors: string[];
+}
+
+const LOCK_TYPES: LockType[] = ['code', 'scrambled', 'checksum'];
+const FRAGMENT_KINDS: FragmentKind[] = ['keycard', 'note', 'computer'];
+const PICKUP_RADIUS = 19;
+// Close enough on both axes to be within the 20px exit radius.
+const DOOR_RADIUS = 14;
+// Keeps walk grids and minimaps a sensible size.
+const MAX_WORLD = { width: CANVAS_WIDTH * 6, height: CANVAS_HEIGHT * 6 };
+
+const isInt = (v: unknown): v is number => Number.isInteger(v);
+const isWall = (v: unknown): v is Wall => {
+  const w = asObject(v);
+  return !!w && [w.x, w.y, w.w, w.h].every(isNum);
+};
+
+// The terminal tells the player which way a scrambled code runs, so it must
+// run one way all through.
+const isMonotonic = (password: string) => {
+  const digits = password.split('').map(Number);
+  const steps = digits.slice(1).map((d, i) => d - digits[i]);
+  return steps.every(s => s > 0) || steps.every(s => s < 0);
+};
+
+export const validateLevel = (data: unknown): LevelValidation => {
+  const errors: string[] = [];
+  const err = (path: string, message: string) => errors.push(`${path}: ${message}`);
+  const level = asObject(data);
+
+  if (!level) {
+    return { level: null, errors: ['level: must be a JSON object'] };
+  }
+
+  let world: Size = DEFAULT_WORLD;
+  if (level.world !== undefined) {
+    const w = asObject(level.world);
+    if (!w || !isInt(w.width) || !isInt(w.height) ||
+        w.width < CANVAS_WIDTH / 2 || w.height < CANVAS_HEIGHT / 2 ||
+        w.width > MAX_WORLD.width || w.height > MAX_WORLD.height) {
+      err('world', `must be { "width", "height" } in whole pixels, from ${CANVAS_WIDTH / 2}x${CANVAS_HEIGHT / 2} up to ${MAX_WORLD.width}x${MAX_WORLD.height}`);
+    } else {
+      world = { width: w.width, height: w.height };
+    }
+  }
+
+  const checkPoint = (path: string, v: unknown, size = 0): v is Point => {
+    const p = asObject(v);
+    if (!p || !isNum(p.x) || !isNum(p.y)) {
+      err(path, 'must be a point like { "x": 0, "y": 0 }');
+      return false;
+    }
+    if (p.x < 0 || p.y < 0 || p.x + size > world.width || p.y + size > world.height) {
+      err(path, `(${p.x}, ${p.y}) is outside the ${world.width}x${world.height} floor`);
+      return false;
+    }
+    return true;
+  };
+
+  const checkList = (path: string, v: unknown): v is unknown[] => {
+    if (Array.isArray(v)) return true;
+    err(path, 'must be an array');
+    return false;
+  };
+
+  if (typeof level.name !== 'string' || level.name.trim() === '') err('name', 'must be a non-empty string');
+  if (!isNum(level.timeLimit) || level.timeLimit <= 0) err('timeLimit', 'must be a positive number of seconds');
+
+  const walls: Wall[] = [];
+  if (checkList('walls', level.walls)) {
+    level.walls.forEach((w, i) => {
+      if (!isWall(w)) err(`walls[${i}]`, 'needs numeric x, y, w and h');
+      else if (w.w <= 0 || w.h <= 0) err(`walls[${i}]`, 'w and h must be positive');
+      else walls.push(w);
+    });
+  }
+
+  const spawn = checkPoint('spawn', level.spawn, PLAYER_SIZE) ? level.spawn : null;
+  if (spawn && collidesWithWalls(spawn.x, spawn.y, PLAYER_SIZE, walls)) err('spawn', 'is inside a wall');
+  const door = checkPoint('door', level.door) ? level.door : null;
+
+  const moneyPoints: [string, Point][] = [];
+  if (checkList('money', level.money)) {
+    level.money.forEach((m, i) => {
+      const { pos, value } = asObject(m) ?? {};
+      if (checkPoint(`money[${i}].pos`, pos)) moneyPoints.push([`money[${i}].pos`, pos]);
+      if (!isNum(value) || value <= 0) err(`money[${i}].value`, 'must be a positive number');
+    });
+  }
+
+  if (checkList('guards', level.guards)) {
+    level.guards.forEach((g, i) => {
+      const { speed, path } = asObject(g) ?? {};
+      if (!isNum(speed) || speed <= 0) err(`guards[${i}].speed`, 'must be a positive number');
+      if (!Array.isArray(path) || path.length < 2) {
+        err(`guards[${i}].path`, 'needs at least 2 waypoints');
+        return;
+      }
+      path.forEach((p: unknown, j) => {
+        if (checkPoint(`guards[${i}].path[${j}]`, p, GUARD_SIZE) && collidesWithWalls(p.x, p.y, GUARD_SIZE, walls)) {
+          err(`guards[${i}].path[${j}]`, 'is inside a wall');
+        }
+      });
+    });
+  }
+
+  const lock = asObject(level.lock);
+  if (!lock) {
+    err('lock', 'must be an object with a "type"');
+  } else {
+    const type = LOCK_TYPES.find(t => t === lock.type);
+    const password = lock.password;
+    if (!type) err('lock.type', `must be one of ${LOCK_TYPES.join(', ')}`);
+    if (password !== undefined) {
+      if (typeof password !== 'string' || !new RegExp(`^\\d{${PASSWORD_LENGTH}}$`).test(password)) {
+        err('lock.password', `must be a string of ${PASSWORD_LENGTH} digits`);
+      } else if (type === 'checksum') {
+        const digits = password.split('').map(Number);
+        const sum = digits.slice(0, -1).reduce((a, b) => a + b, 0);
+        if (sum % 10 !== digits[digits.length - 1]) err('lock.password', 'last digit must be the sum of the others mod 10');
+      } else if (type === 'scrambled' && !isMonotonic(password)) {
+        err('lock.password', 'a scrambled code must run in strictly ascending or descending order');
+      }
+    }
+    if (lock.fragments !== undefined) {
+      if (password === undefined) err('lock.fragments', 'fixed fragments need a fixed lock.password');
+      if (checkList('lock.fragments', lock.fragments)) {
+        const seen = new Set<number>();
+        lock.fragments.forEach((f, i) => {
+          const { pos, kind, digitIndex } = asObject(f) ?? {};
+          if (checkPoint(`lock.fragments[${i}].pos`, pos)) moneyPoints.push([`lock.fragments[${i}].pos`, pos]);
+          if (!FRAGMENT_KINDS.some(k => k === kind)) err(`lock.fragments[${i}].kind`, `must be one of ${FRAGMENT_KINDS.join(', ')}`);
+          if (!isInt(digitIndex) || digitIndex < 0 || digitIndex >= PASSWORD_LENGTH) {
+            err(`lock.fragments[${i}].digitIndex`, `must be an integer from 0 to ${PASSWORD_LENGTH - 1}`);
+          } else if (seen.has(digitIndex)) {
+            err(`lock.fragments[${i}].digitIndex`, `digit ${digitIndex} is already revealed by another fragment`);
+          } else {
+            seen.add(digitIndex);
+          }
+        });
+        // A checksum lock only hides the digits before the sum; every other
+        // lock hides them all.
+        if (type) {
+          const needed = type === 'checksum' ? PASSWORD_LENGTH - 1 : PASSWORD_LENGTH;
+          for (let d = 0; d < needed; d++) {
+            if (!seen.has(d)) err('lock.fragments', `no fragment reveals digit ${d}; a ${type} lock needs digits 0 to ${needed - 1}`);
+          }
+        }
+      }
+    }
+  }
+
+  if (level.lamps !== undefined && checkList('lamps', level.lamps)) {
+    level.lamps.forEach((p, i) => {
+      if (checkPoint(`lamps[${i}]`, p) && collidesWithWalls(p.x, p.y, 0, walls)) err(`lamps[${i}]`, 'is inside a wall');
+    });
+  }
+
+  // Reachability only means something once the geometry itself is valid.
+  if (errors.length === 0 && spawn && door) {
+    const grid = buildWalkGrid(walls, PLAYER_SIZE, world);
+    const reached = floodFill(grid, spawn);
+    if (!isReachableNear(grid, reached, door, DOOR_RADIUS)) err('door', 'cannot be reached from spawn');
+    moneyPoints.forEach(([path, p]) => {
+      if (!isReachableNear(grid, reached, p, PICKUP_RADIUS)) err(path, 'cannot be reached from spawn');
+    });
+  }
+
+  return { level: errors.length > 0 ? null : (level as unknown as LevelDefinition), errors };
+};
@@ -0,0 +1,237 @@
+import { AbilityId, GadgetId, GameConfig, GameEvent, GameState, Posture, RobberIndex, RobberInput, UpgradeId, Wall } from '../types';
+import { ABILITY_COOLDOWNS, GADGETS } from './abilities';
+import { TICK_RATE } from './constants';
+import { createInitialState } from './generation';
+import { asObject, has, isNum } from './json';
+import { isGameConfig } from './modes';
+import { ClientMessage, Connection, decode, encode, ServerMessage, stepInputFor } from './net';
+import { applyCommand, ReplayCommandBody } from './replay';
+import { normalizeSeed, randomSeed } from './rng';
+import { advance } from './simulation';
+import { UPGRADES } from './upgrades';
+import { DEFAULT_CAMPAIGN } from '../levels';
+
+// The authoritative side of online co-op, with no idea what carries its
+// messages: the Node server hands it WebSockets, the in-page offline mode a
+// loopback. Players meet in rooms by a short code; the host is robber 0 and
+// whoever joins robber 1, and the run starts as soon as both are in.
+
+const SNAPSHOT_INTERVAL = 3; // ticks between snapshots
+const MAX_BACKLOG = 8; // queued inputs a seat may fall behind by before the oldest are skipped
+const HOLD_TICKS = 10; // ticks a seat's last input is kept going when the next is late
+const MAX_STEPS = 15; // ticks caught up at most per update, after a stall
+const CODE_LETTERS = 'ABCDEFGHJKLMNPQRSTUVWXYZ'; // no I or O to mix up with 1 and 0
+const CODE_LENGTH = 4;
+
+const IDLE: RobberInput = { move: { x: 0, y: 0 }, posture: 'walk' };
+const POSTURES: Posture[] = ['walk', 'sprint', 'crouch'];
+
+type Queued = { seq: number; input: RobberInput } | { seq: number; command: ReplayCommandBody };
+
+interface Seat {
+  conn: Connection;
+  queue: Queued[];
+  input: RobberInput; // what the robber is doing this tick
+  ack: number; // the last seq taken off the queue
+  starved: number; // ticks in a row with nothing queued
+}
+
+interface Room {
+  code: string;
+  config: GameConfig;
+  seats: Seat[];
+  state: GameState | null;
+  tick: number;
+  accumulator: number;
+  events: GameEvent[];
+  sentWalls: Wall[] | null;
+}
+
+// Never trust a client's numbers: a move longer than 1 would be a speed hack.
+const cleanInput = (input: unknown): RobberInput | null => {
+  const { move, posture: rawPosture } = asObject(input) ?? {};
+  const { x, y } = asObject(move) ?? {};
+  const posture = POSTURES.find(p => p === rawPosture);
+  if (!isNum(x) || !isNum(y) || !posture) return null;
+  const length = Math.hypot(x, y);
+  const scale = length > 1 ? 1 / length : 1;
+  return { move: { x: x * scale, y: y * scale }, posture };
+};
+
+// Nor their commands: an unknown gadget or upgrade would throw in the shop and
+// stop every room on the server. Abilities are always used by the robber whose
+// player asked for them.
+const cleanCommand = (command: unknown, robber: RobberIndex): ReplayCommandBody | null => {
+  const c = asObject(command);
+  if (!c) return null;
+  switch (c.type) {
+    case 'submitCode': return typeof c.code === 'string' ? { type: 'submitCode', code: c.code } : null;
+    case 'closeTerminal': return { type: 'closeTerminal' };
+    case 'closeShop': return { type: 'closeShop' };
+    case 'useAbility': return has(ABILITY_COOLDOWNS, c.ability) ? { type: 'useAbility', ability: c.ability as AbilityId, robber } : null;
+    case 'buyGadget': return has(GADGETS, c.gadget) ? { type: 'buyGadget', gadget: c.gadget as GadgetId } : null;
+    case 'buyUpgrade': return has(UPGRADES, c.upgrade) ? { type: 'buyUpgrade', upgrade: c.upgrade as UpgradeId } : null;
+    default: return null;
+  }
+};
+
+export const createLobby = () => {
+  const rooms = new Map<string, Room>();
+
+  const send = (conn: Connection, message: ServerMessage) => conn.send(encode(message));
+
+  const newCode = () => {
+    let code = '';
+    do {
+      code = Array.from({ length: CODE_LENGTH }, () => CODE_LETTERS[Math.floor(Math.random() * CODE_LETTERS.length)]).join('');
+    } while (rooms.has(code));
+    return code;
+  };
+
+  const start = (room: Room, seed: string) => {
+    room.state = createInitialState(seed, DEFAULT_CAMPAIGN, { ...room.config, coop: true });
+    room.tick = 0;
+    room.accumulator = 0;
+    room.events = [];
+    room.sentWalls = room.state.walls;
+    room.seats.forEach((seat, i) => {
+      seat.queue = [];
+      seat.input = IDLE;
+      send(seat.conn, { type: 'started', code: room.code, robber: i as RobberIndex, state: room.state! });
+    });
+  };
+
+  const close = (room: Room, leaving: Connection, reason: string) => {
+    rooms.delete(room.code);
+    room.seats.filter(s => s.conn !== leaving).forEach(s => send(s.conn, { type: 'closed', reason }));
+  };
+
+  // Commands first, then at most one input: the seat's tick in the same order it was played.
+  const takeInput = (room: Room, seat: Seat) => {
+    while (seat.queue.filter(q => 'input' in q).length > MAX_BACKLOG) {
+      seat.queue.splice(seat.queue.findIndex(q => 'input' in q), 1);
+    }
+    while (seat.queue.length > 0) {
+      const queued = seat.queue.shift()!;
+      seat.ack = queued.seq;
+      if ('input' in queued) {
+        seat.input = queued.input;
+        seat.starved = 0;
+        return;
+      }
+      const result = applyCommand(room.state!, queued.command);
+      room.state = result.state;
+      room.events.push(...result.events);
+    }
+    if (++seat.starved > HOLD_TICKS) seat.input = IDLE;
+  };
+
+  const stepRoom = (room: Room) => {
+    room.seats.forEach(seat => takeInput(room, seat));
+    const result = advance(room.state!, stepInputFor(room.seats.map(s => s.input)), 1 / TICK_RATE);
+    room.state = result.state;
+    room.events.push(...result.events);
+    room.tick++;
+    if (room.tick % SNAPSHOT_INTERVAL !== 0) return;
+
+    const { walls, ...rest } = room.state;
+    const newFloor = walls !== room.sentWalls;
+    room.sentWalls = walls;
+    room.seats.forEach(seat => send(seat.conn, {
+      type: 'snapshot',
+      tick: room.tick,
+      ack: seat.ack,
+      state: rest,
+      ...(newFloor ? { walls } : {}),
+      inputs: room.seats.map(s => s.input),
+      events: room.events,
+    }));
+    room.events = [];
+  };
+
+  /** Takes a new player's connection; they can host or join from there. */
+  const connect = (conn: Connection) => {
+    let room: Room | null = null;
+    let seat: Seat | null = null;
+
+    const leave = () => {
+      if (room && rooms.get(room.code) === room) close(room, conn, 'Your partner left the room');
+      room = null;
+      seat = null;
+    };
+
+    conn.onMessage(raw => {
+      const message = decode<ClientMessage>(raw);
+      if (!message) return;
+      switch (message.type) {
+        case 'create': {
+          if (!isGameConfig(message.config)) return send(conn, { type: 'error', message: 'Unknown game mode' });
+          leave();
+          seat = { conn, queue: [], input: IDLE, ack: 0, starved: 0 };
+          room = { code: newCode(), config: message.config, seats: [seat], state: null, tick: 0, accumulator: 0, events: [], sentWalls: null };
+          rooms.set(room.code, room);
+          send(conn, { type: 'waiting', code: room.code });
+          break;
+        }
+        case 'join': {
+          const target = rooms.get(String(message.code).toUpperCase());
+          if (!target) return send(conn, { type: 'error', message: `No room called ${message.code}` });
+          if (target.seats[0].conn === conn) return send(conn, { type: 'error', message: "That's your own room" });
+          if (target.seats.length > 1) return send(conn, { type: 'error', message: `Room ${target.code} is full` });
+          leave();
+          seat = { conn, queue: [], input: IDLE, ack: 0, starved: 0 };
+          room = target;
+          room.seats.push(seat);
+          start(room, randomSeed());
+          break;
+        }
+        case 'input': {
+          const input = cleanInput(message.input);
+          if (seat && room?.state && input && Number.isFinite(message.seq)) seat.queue.push({ seq: message.seq, input });
+          break;
+        }
+        case 'command': {
+          const robber = room ? (room.seats.indexOf(seat!) as RobberIndex) : 0;
+          const command = cleanCommand(message.command, robber);
+          if (seat && room?.state && command && Number.isFinite(message.seq)) seat.queue.push({ seq: message.seq, command });
+          break;
+        }
+        case 'restart':
+          if (room?.state?.isGameOver && room.seats.length > 1) start(room, normalizeSeed(message.seed ?? '') || randomSeed());
+          break;
+        case 'leave':
+          leave();
+          break;
+      }
+    });
+    conn.onClose(leave);
+  };
+
+  /** Runs every room that's under way for `elapsed` more seconds. */
+  const update = (elapsed: number) => {
+    const dt = 1 / TICK_RATE;
+    rooms.forEach(room => {
+      if (!room.state) return;
+      room.accumulator = Math.min(room.accumulator + elapsed, dt * MAX_STEPS);
+      while (room.accumulator >= dt) {
+        stepRoom(room);
+        room.accumulator -= dt;
+      }
+    });
+  };
+
+  return { connect, update, roomCount: () => rooms.size };
+};
+
+export type Lobby = ReturnType<typeof createLobby>;
+
+/** Drives `lobby` off the wall clock until the returned function is called. */
+export const startLobbyClock = (lobby: Lobby) => {
+  let last = performance.now();
+  const timer = setInterval(() => {
+    const now = performance.now();
+    lobby.update((now - last) / 1000);
+    last = now;
+  }, 1000 / TICK_RATE);
+  return () => clearInterval(timer);
+};
@@ -0,0 +1,131 @@
+import { FragmentKind, GameEvent, GameState, LockType, StepResult } from '../types';
+import { PASSWORD_LENGTH, WRONG_CODE_TIME_PENALTY } from './constants';
+import { addNoise, createNoise } from './noise';
+import { Rng } from './rng';
+
+// Door locks. The password is split across fragments the generator hides on
+// the floor; each lock type changes what a fragment tells the player.
+//   code      - every fragment reveals the digit in its slot.
+//   scrambled - fragments reveal digits but not their slots; the digits are
+//               in ascending or descending order, the terminal says which.
+//   checksum  - only the first three digits are hidden on the floor; the last
+//               one is their sum mod 10.
+
+export interface Lock {
+  lockType: LockType;
+  password: string;
+  /** Slots that have a fragment on the floor, in the order they are placed. */
+  fragmentSlots: number[];
+}
+
+const FRAGMENT_KINDS: FragmentKind[] = ['keycard', 'note', 'computer'];
+
+const shuffle = <T>(items: T[], rng: Rng) => {
+  const out = [...items];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = rng.int(0, i);
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+};
+
+const slots = (n: number) => Array.from({ length: n }, (_, i) => i);
+
+const randomPassword = (lockType: LockType, rng: Rng) => {
+  switch (lockType) {
+    case 'scrambled': {
+      const digits = shuffle(slots(10), rng).slice(0, PASSWORD_LENGTH).sort((a, b) => a - b);
+      if (rng.next() < 0.5) digits.reverse();
+      return digits.join('');
+    }
+    case 'checksum': {
+      const digits = slots(PASSWORD_LENGTH - 1).map(() => rng.int(0, 9));
+      digits.push(digits.reduce((sum, d) => sum + d, 0) % 10);
+      return digits.join('');
+    }
+    default:
+      return Math.floor(1000 + rng.next() * 9000).toString();
+  }
+};
+
+const fragmentSlotsFor = (lockType: LockType, rng: Rng) => {
+  switch (lockType) {
+    case 'scrambled': return shuffle(slots(PASSWORD_LENGTH), rng);
+    case 'checksum': return slots(PASSWORD_LENGTH - 1);
+    default: return slots(PASSWORD_LENGTH);
+  }
+};
+
+/** A lock for the floor. Authored levels may fix the lock type and password. */
+export const generateLock = (floor: number, rng: Rng, lockType?: LockType, password?: string): Lock => {
+  const lockTypes: LockType[] = ['code', 'scrambled', 'checksum'];
+  const type = lockType ?? (floor <= 2 ? 'code' : lockTypes[rng.int(0, lockTypes.length - 1)]);
+  return {
+    lockType: type,
+    password: password ?? randomPassword(type, rng),
+    fragmentSlots: fragmentSlotsFor(type, rng),
+  };
+};
+
+export const randomFragmentKind = (rng: Rng) => FRAGMENT_KINDS[rng.int(0, FRAGMENT_KINDS.length - 1)];
+
+export const hiddenCode = () => '_'.repeat(PASSWORD_LENGTH);
+
+export const revealDigit = (revealed: string, password: string, slot: number) =>
+  revealed.slice(0, slot) + password[slot] + revealed.slice(slot + 1);
+
+/** What the terminal shows about the code, depending on the lock type. */
+export const describeLock = (state: GameState) => {
+  const found = state.fragments.filter(f => f.collected).length;
+  const progress = `${found}/${state.fragments.length} FRAGMENTS RECOVERED`;
+  switch (state.lockType) {
+    case 'scrambled': {
+      const digits = state.fragments.map(f => (f.collected ? state.password[f.digitIndex] : '?'));
+      const ascending = state.password[0] < state.password[PASSWORD_LENGTH - 1];
+      return {
+        display: digits.join(' '),
+        hint: `DIGITS SCRAMBLED. CODE RUNS IN ${ascending ? 'ASCENDING' : 'DESCENDING'} ORDER.`,
+        progress,
+      };
+    }
+    case 'checksum':
+      return {
+        display: state.lastPasswordFound.split('').join(' '),
+        hint: 'LAST DIGIT = SUM OF THE OTHERS MOD 10.',
+        progress,
+      };
+    default:
+      return {
+        display: state.lastPasswordFound.split('').join(' '),
+        hint: 'ENCRYPTED KEY REQUIRED.',
+        progress,
+      };
+  }
+};
+
+/**
+ * Checks a code typed into the door terminal. A wrong code costs time and
+ * sounds a buzzer at the door that guards within earshot come to check.
+ */
+export const submitCode = (state: GameState, code: string): StepResult => {
+  const events: GameEvent[] = [];
+  if (code === state.password) {
+    events.push({ type: 'codeAccepted' });
+    return { state: { ...state, foundPassword: true, showTerminal: false }, events };
+  }
+
+  events.push({ type: 'codeRejected', penalty: WRONG_CODE_TIME_PENALTY });
+  // The terminal's buzzer brings whoever hears it over to the door.
+  const buzzer = createNoise('wrongCode', { x: state.doorPos.x + 15, y: state.doorPos.y + 15 });
+  return {
+    state: addNoise({
+      ...state,
+      showTerminal: false,
+      timeLeft: Math.max(0, state.timeLeft - WRONG_CODE_TIME_PENALTY),
+      stats: { ...state.stats, wrongCodes: state.stats.wrongCodes + 1 },
+    }, buzzer),
+    events,
+  };
+};
+
+export const closeTerminal = (state: GameState): GameState => ({ ...state, showTerminal: false });
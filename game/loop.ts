@@ -0,0 +1,43 @@
+// Fixed-timestep driver on requestAnimationFrame. Real elapsed time is fed
+// into an accumulator and drained in `dt`-sized simulation steps, so game
+// speed and the floor timer don't depend on the display's refresh rate.
+// `render` gets the fraction of a step left over for interpolation.
+
+// Longest frame we catch up on; beyond this (tab in the background, debugger)
+// the game simply slows down instead of running hundreds of steps at once.
+const MAX_FRAME_TIME = 0.25;
+
+export interface FixedLoopOptions {
+  dt: number;
+  isRunning: () => boolean;
+  update: (dt: number) => void;
+  render: (alpha: number) => void;
+}
+
+/** Starts the loop and returns a function that stops it. */
+export const startFixedLoop = ({ dt, isRunning, update, render }: FixedLoopOptions) => {
+  let last = performance.now();
+  let accumulator = 0;
+  let frame = 0;
+
+  const tick = (now: number) => {
+    const elapsed = Math.min((now - last) / 1000, MAX_FRAME_TIME);
+    last = now;
+
+    if (isRunning()) {
+      accumulator += elapsed;
+      while (accumulator >= dt && isRunning()) {
+        update(dt);
+        accumulator -= dt;
+      }
+    }
+    // Nothing carries over across a pause or an open terminal.
+    if (!isRunning()) accumulator = 0;
+
+    render(accumulator / dt);
+    frame = requestAnimationFrame(tick);
+  };
+
+  frame = requestAnimationFrame(tick);
+  return () => cancelAnimationFrame(frame);
+};
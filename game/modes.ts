@@ -0,0 +1,178 @@
+import { Difficulty, GameConfig, GameMode } from '../types';
+import { asObject, has } from './json';
+
+// Difficulty presets scale the base tuning; modes change the rules. A run's
+// config is fixed at the start and stored in its GameState, so saves and
+// replays rebuild it the same way.
+
+interface DifficultyPreset {
+  label: string;
+  description: string;
+  playerSpeed: number; // multiplier on SPEED
+  guardSpeed: number; // multiplier on every guard's patrol speed
+  maxGuards: number; // cap for procedural floors
+  timeScale: number; // multiplier on each floor's time limit
+  scoreMultiplier: number;
+  lives: number;
+  keepLoot: boolean; // cash picked up on a floor survives being caught there
+}
+
+interface ModePreset {
+  label: string;
+  description: string;
+  timer: boolean;
+  carryTime: boolean; // leftover time is added to the next floor
+  detectionFails: boolean; // being spotted counts as being caught
+  campaign: boolean; // authored floors first, then procedural
+  timeScale: number;
+  extraGuards: number; // added to the difficulty's guard cap
+  scoreMultiplier: number;
+}
+
+export const DIFFICULTIES: Record<Difficulty, DifficultyPreset> = {
+  easy: {
+    label: 'Easy',
+    description: 'Slower guards, more time, and getting caught keeps your loot.',
+    playerSpeed: 1.1,
+    guardSpeed: 0.8,
+    maxGuards: 3,
+    timeScale: 1.5,
+    scoreMultiplier: 0.75,
+    lives: 3,
+    keepLoot: true,
+  },
+  normal: {
+    label: 'Normal',
+    description: 'The heist as intended.',
+    playerSpeed: 1,
+    guardSpeed: 1,
+    maxGuards: 5,
+    timeScale: 1,
+    scoreMultiplier: 1,
+    lives: 3,
+    keepLoot: false,
+  },
+  hard: {
+    label: 'Hard',
+    description: 'Faster, more numerous guards, tighter clocks and a single life.',
+    playerSpeed: 1,
+    guardSpeed: 1.2,
+    maxGuards: 7,
+    timeScale: 0.75,
+    scoreMultiplier: 1.5,
+    lives: 1,
+    keepLoot: false,
+  },
+};
+
+export const MODES: Record<GameMode, ModePreset> = {
+  classic: {
+    label: 'Classic',
+    description: 'Clear each floor before the clock runs out.',
+    timer: true,
+    carryTime: false,
+    detectionFails: false,
+    campaign: true,
+    timeScale: 1,
+    extraGuards: 0,
+    scoreMultiplier: 1,
+  },
+  ghost: {
+    label: 'Ghost',
+    description: 'Getting spotted by a guard, camera or laser is as good as getting caught.',
+    timer: true,
+    carryTime: false,
+    detectionFails: true,
+    campaign: true,
+    timeScale: 1,
+    extraGuards: 0,
+    scoreMultiplier: 2,
+  },
+  timeAttack: {
+    label: 'Time Attack',
+    description: 'Half the time per floor, but leftover seconds carry over.',
+    timer: true,
+    carryTime: true,
+    detectionFails: false,
+    campaign: true,
+    timeScale: 0.5,
+    extraGuards: 0,
+    scoreMultiplier: 1.25,
+  },
+  endless: {
+    label: 'Endless',
+    description: 'Procedural floors only, and the guards keep coming.',
+    timer: true,
+    carryTime: false,
+    detectionFails: false,
+    campaign: false,
+    timeScale: 1,
+    extraGuards: 3,
+    scoreMultiplier: 1,
+  },
+  zen: {
+    label: 'Zen',
+    description: 'No timer. Take it slow.',
+    timer: false,
+    carryTime: false,
+    detectionFails: false,
+    campaign: true,
+    timeScale: 1,
+    extraGuards: 0,
+    scoreMultiplier: 0.5,
+  },
+};
+
+export const DEFAULT_CONFIG: GameConfig = { difficulty: 'normal', mode: 'classic' };
+
+/** The combined tuning for a run. */
+export const settingsFor = (config: GameConfig) => {
+  const difficulty = DIFFICULTIES[config.difficulty];
+  const mode = MODES[config.mode];
+  return {
+    playerSpeed: difficulty.playerSpeed,
+    guardSpeed: difficulty.guardSpeed,
+    maxGuards: difficulty.maxGuards + mode.extraGuards,
+    timeScale: difficulty.timeScale * mode.timeScale,
+    scoreMultiplier: difficulty.scoreMultiplier * mode.scoreMultiplier,
+    lives: difficulty.lives,
+    keepLoot: difficulty.keepLoot,
+    timer: mode.timer,
+    carryTime: mode.carryTime,
+    detectionFails: mode.detectionFails,
+    campaign: mode.campaign,
+    coop: !!config.coop,
+  };
+};
+
+export type ModeSettings = ReturnType<typeof settingsFor>;
+
+/** Stable id for a config, used to keep leaderboards and ghosts apart. */
+export const configKey = (config: GameConfig) => `${config.difficulty}-${config.mode}${config.coop ? '-coop' : ''}`;
+
+export const configLabel = (config: GameConfig) =>
+  `${DIFFICULTIES[config.difficulty].label} ${MODES[config.mode].label}${config.coop ? ' Co-op' : ''}`;
+
+export const isGameConfig = (v: unknown): v is GameConfig => {
+  const c = asObject(v);
+  return !!c && has(DIFFICULTIES, c.difficulty) && has(MODES, c.mode) && (c.coop === undefined || typeof c.coop === 'boolean');
+};
+
+const CONFIG_KEY = 'heist.config';
+
+export const loadConfig = (): GameConfig => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(CONFIG_KEY) ?? 'null');
+    return isGameConfig(saved) ? saved : DEFAULT_CONFIG;
+  } catch (e) {
+    return DEFAULT_CONFIG;
+  }
+};
+
+export const saveConfig = (config: GameConfig) => {
+  try {
+    localStorage.setItem(CONFIG_KEY, JSON.stringify(config));
+  } catch (e) {
+    // Falls back to the default next session
+  }
+};
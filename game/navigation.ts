@@ -0,0 +1,151 @@
+import { Point, Size, Wall } from '../types';
+import { GUARD_SIZE } from './constants';
+import { buildWalkGrid, cellToPoint, isOpen, toCell, WalkGrid } from './grid';
+
+// A* over a walkability grid sized for guards. Walls never change during a
+// floor and every state update keeps the same `walls` array, so the grid is
+// built once per floor and looked up by identity.
+
+const gridCache = new WeakMap<Wall[], WalkGrid>();
+
+export const getNavGrid = (walls: Wall[], world: Size): WalkGrid => {
+  let grid = gridCache.get(walls);
+  if (!grid) {
+    grid = buildWalkGrid(walls, GUARD_SIZE, world);
+    gridCache.set(walls, grid);
+  }
+  return grid;
+};
+
+const SNAP_RADIUS = 4; // cells
+const DIAGONAL_COST = Math.SQRT2;
+
+/** The open cell closest to `p`, searching outwards a few rings. */
+export const nearestOpenCell = (grid: WalkGrid, p: Point) => {
+  const { cx, cy } = toCell(p);
+  for (let r = 0; r <= SNAP_RADIUS; r++) {
+    let best: { cx: number; cy: number } | null = null;
+    let bestDist = Infinity;
+    for (let y = cy - r; y <= cy + r; y++) {
+      for (let x = cx - r; x <= cx + r; x++) {
+        if (Math.max(Math.abs(x - cx), Math.abs(y - cy)) !== r || !isOpen(grid, x, y)) continue;
+        const d = (x - cx) ** 2 + (y - cy) ** 2;
+        if (d < bestDist) {
+          bestDist = d;
+          best = { cx: x, cy: y };
+        }
+      }
+    }
+    if (best) return best;
+  }
+  return null;
+};
+
+// Minimal binary heap of cell indices ordered by f-score.
+const createOpenSet = (score: Float64Array) => {
+  const items: number[] = [];
+  const swap = (i: number, j: number) => { [items[i], items[j]] = [items[j], items[i]]; };
+
+  const push = (idx: number) => {
+    items.push(idx);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (score[items[parent]] <= score[items[i]]) break;
+      swap(parent, i);
+      i = parent;
+    }
+  };
+
+  const pop = () => {
+    const top = items[0];
+    const last = items.pop()!;
+    if (items.length > 0) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const l = i * 2 + 1;
+        const r = l + 1;
+        let smallest = i;
+        if (l < items.length && score[items[l]] < score[items[smallest]]) smallest = l;
+        if (r < items.length && score[items[r]] < score[items[smallest]]) smallest = r;
+        if (smallest === i) break;
+        swap(smallest, i);
+        i = smallest;
+      }
+    }
+    return top;
+  };
+
+  return { push, pop, isEmpty: () => items.length === 0 };
+};
+
+const octile = (ax: number, ay: number, bx: number, by: number) => {
+  const dx = Math.abs(ax - bx);
+  const dy = Math.abs(ay - by);
+  return Math.max(dx, dy) + (DIAGONAL_COST - 1) * Math.min(dx, dy);
+};
+
+/**
+ * Waypoints (cell corners, in guard top-left coordinates) from `from` to `to`,
+ * excluding the starting cell. Returns null when no route exists.
+ */
+export const findPath = (walls: Wall[], world: Size, from: Point, to: Point): Point[] | null => {
+  const grid = getNavGrid(walls, world);
+  const start = nearestOpenCell(grid, from);
+  const goal = nearestOpenCell(grid, to);
+  if (!start || !goal) return null;
+
+  const { cols } = grid;
+  const total = cols * grid.rows;
+  const startIdx = start.cy * cols + start.cx;
+  const goalIdx = goal.cy * cols + goal.cx;
+  if (startIdx === goalIdx) return [];
+
+  const g = new Float64Array(total).fill(Infinity);
+  const f = new Float64Array(total).fill(Infinity);
+  const cameFrom = new Int32Array(total).fill(-1);
+  const closed = new Uint8Array(total);
+  const open = createOpenSet(f);
+
+  g[startIdx] = 0;
+  f[startIdx] = octile(start.cx, start.cy, goal.cx, goal.cy);
+  open.push(startIdx);
+
+  while (!open.isEmpty()) {
+    const current = open.pop();
+    if (current === goalIdx) break;
+    if (closed[current]) continue;
+    closed[current] = 1;
+
+    const x = current % cols;
+    const y = Math.floor(current / cols);
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        if (dx === 0 && dy === 0) continue;
+        const nx = x + dx;
+        const ny = y + dy;
+        if (!isOpen(grid, nx, ny)) continue;
+        // Diagonals may not cut corners: both orthogonal neighbours must be open.
+        if (dx !== 0 && dy !== 0 && (!isOpen(grid, x + dx, y) || !isOpen(grid, x, y + dy))) continue;
+        const n = ny * cols + nx;
+        if (closed[n]) continue;
+        const tentative = g[current] + (dx !== 0 && dy !== 0 ? DIAGONAL_COST : 1);
+        if (tentative < g[n]) {
+          g[n] = tentative;
+          f[n] = tentative + octile(nx, ny, goal.cx, goal.cy);
+          cameFrom[n] = current;
+          open.push(n);
+        }
+      }
+    }
+  }
+
+  if (cameFrom[goalIdx] === -1) return null;
+
+  const path: Point[] = [];
+  for (let idx = goalIdx; idx !== startIdx; idx = cameFrom[idx]) {
+    path.push(cellToPoint(idx % cols, Math.floor(idx / cols)));
+  }
+  return path.reverse();
+};
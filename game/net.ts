@@ -0,0 +1,243 @@
+import { GameConfig, GameEvent, GameState, RobberIndex, RobberInput, StepInput, Wall } from '../types';
+import { TICK_RATE } from './constants';
+import { asObject } from './json';
+import { applyCommand, ReplayCommandBody } from './replay';
+import { advance } from './simulation';
+
+// Online co-op. A room on the server (see lobby.ts) owns the run and steps it
+// at TICK_RATE, one queued input per robber per tick. Clients send their input
+// and commands as they go and keep running the same rules on their own copy,
+// so their robber answers the keys at once. Every snapshot from the server
+// replaces that copy; whatever the server hasn't taken in yet is then played
+// again on top of it. The rules are deterministic, so when nothing
+// surprising happened the replayed state lands exactly where the old one was.
+
+export const NET_PORT = 8787;
+
+export type ClientMessage =
+  | { type: 'create'; config: GameConfig }
+  | { type: 'join'; code: string }
+  | { type: 'input'; seq: number; input: RobberInput }
+  | { type: 'command'; seq: number; command: ReplayCommandBody }
+  | { type: 'restart'; seed?: string }
+  | { type: 'leave' };
+
+export type ServerMessage =
+  | { type: 'waiting'; code: string }
+  | { type: 'started'; code: string; robber: RobberIndex; state: GameState }
+  /** `walls` only comes along when the floor has changed; `ack` is the last input or command of yours it includes. */
+  | { type: 'snapshot'; tick: number; ack: number; state: Omit<GameState, 'walls'>; walls?: Wall[]; inputs: RobberInput[]; events: GameEvent[] }
+  | { type: 'closed'; reason: string }
+  | { type: 'error'; message: string };
+
+/** A message pipe to the other side, whatever carries it. */
+export interface Connection {
+  send: (message: string) => void;
+  close: () => void;
+  onMessage: (listener: (message: string) => void) => void;
+  onClose: (listener: () => void) => void;
+}
+
+// The parts of a WebSocket we use; both the browser's and the `ws` package's fit.
+interface SocketLike {
+  readyState: number;
+  send: (data: string) => void;
+  close: () => void;
+  addEventListener: (type: 'open' | 'close' | 'message', listener: (event: unknown) => void) => void;
+}
+
+const OPEN = 1;
+
+/** Wraps a WebSocket, holding messages back until it has opened. */
+export const socketConnection = (socket: SocketLike): Connection => {
+  const outbox: string[] = [];
+  socket.addEventListener('open', () => outbox.splice(0).forEach(m => socket.send(m)));
+  return {
+    send: (message) => (socket.readyState === OPEN ? socket.send(message) : outbox.push(message)),
+    close: () => socket.close(),
+    onMessage: (listener) => socket.addEventListener('message', e => listener(String(asObject(e)?.data))),
+    onClose: (listener) => socket.addEventListener('close', () => listener()),
+  };
+};
+
+/**
+ * Two connected ends in the same page, for playing a room without a server.
+ * Messages still go through JSON and arrive a task later, as over a socket.
+ */
+export const createLoopback = (): [Connection, Connection] => {
+  const make = () => {
+    const messageListeners: ((message: string) => void)[] = [];
+    const closeListeners: (() => void)[] = [];
+    let closed = false;
+    return { messageListeners, closeListeners, isClosed: () => closed, markClosed: () => (closed = true) };
+  };
+  const ends = [make(), make()];
+  const connection = (self: number): Connection => {
+    const here = ends[self];
+    const there = ends[1 - self];
+    return {
+      send: (message) => {
+        if (here.isClosed()) return;
+        setTimeout(() => !there.isClosed() && there.messageListeners.forEach(l => l(message)), 0);
+      },
+      close: () => {
+        if (here.isClosed()) return;
+        ends.forEach(end => end.markClosed());
+        setTimeout(() => ends.forEach(end => end.closeListeners.forEach(l => l())), 0);
+      },
+      onMessage: (listener) => here.messageListeners.push(listener),
+      onClose: (listener) => here.closeListeners.push(listener),
+    };
+  };
+  return [connection(0), connection(1)];
+};
+
+export const encode = (message: ClientMessage | ServerMessage) => JSON.stringify(message);
+
+export const decode = <T extends ClientMessage | ServerMessage>(message: string): T | null => {
+  try {
+    const parsed = asObject(JSON.parse(message));
+    return parsed && typeof parsed.type === 'string' ? (parsed as T) : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+const IDLE: RobberInput = { move: { x: 0, y: 0 }, posture: 'walk' };
+
+/** Both robbers' input for one tick, from each robber's own. */
+export const stepInputFor = (inputs: RobberInput[]): StepInput => ({ ...(inputs[0] ?? IDLE), partner: inputs[1] ?? IDLE });
+
+export type NetStatus = 'idle' | 'waiting' | 'playing' | 'closed';
+
+type Pending = { seq: number; input: RobberInput } | { seq: number; command: ReplayCommandBody };
+
+/** One player's end of an online room. */
+export const createNetClient = (conn: Connection) => {
+  const dt = 1 / TICK_RATE;
+  let status: NetStatus = 'idle';
+  let code = '';
+  let error = '';
+  let robber: RobberIndex = 0;
+  let walls: Wall[] = [];
+  let state: GameState | null = null; // predicted
+  let prev: GameState | null = null;
+  let others: RobberInput[] = [IDLE, IDLE]; // the latest input the server had from each robber
+  let pending: Pending[] = [];
+  let seq = 0;
+  let correction = 0;
+  let serverTick = 0;
+  const events: GameEvent[] = [];
+  const listeners: (() => void)[] = [];
+
+  const changed = () => listeners.forEach(l => l());
+  const send = (message: ClientMessage) => conn.send(encode(message));
+
+  const inputsWith = (input: RobberInput) => others.map((other, i) => (i === robber ? input : other));
+  const replay = (from: GameState, p: Pending) =>
+    'input' in p ? advance(from, stepInputFor(inputsWith(p.input)), dt).state : applyCommand(from, p.command).state;
+
+  const ownPos = (s: GameState) => (robber === 1 && s.partner ? s.partner.pos : s.playerPos);
+
+  conn.onMessage(raw => {
+    const message = decode<ServerMessage>(raw);
+    if (!message) return;
+    switch (message.type) {
+      case 'waiting':
+        status = 'waiting';
+        code = message.code;
+        error = '';
+        changed();
+        break;
+      case 'started':
+        status = 'playing';
+        code = message.code;
+        robber = message.robber;
+        walls = message.state.walls;
+        state = prev = message.state;
+        others = [IDLE, IDLE];
+        pending = [];
+        error = '';
+        changed();
+        break;
+      case 'snapshot': {
+        if (status !== 'playing' || !state) return;
+        if (message.walls) walls = message.walls;
+        serverTick = message.tick;
+        others = message.inputs;
+        pending = pending.filter(p => p.seq > message.ack);
+        const before = ownPos(state);
+        state = pending.reduce(replay, { ...message.state, walls } as GameState);
+        const after = ownPos(state);
+        correction = Math.hypot(after.x - before.x, after.y - before.y);
+        events.push(...message.events);
+        break;
+      }
+      case 'closed':
+        status = 'closed';
+        error = message.reason;
+        changed();
+        break;
+      case 'error':
+        if (status === 'waiting') status = 'idle';
+        error = message.message;
+        changed();
+        break;
+    }
+  });
+
+  conn.onClose(() => {
+    if (status === 'closed') return;
+    if (!error) error = status === 'idle' ? "Couldn't reach the server" : 'Lost the connection to the server';
+    status = 'closed';
+    changed();
+  });
+
+  return {
+    host: (config: GameConfig) => send({ type: 'create', config }),
+    join: (room: string) => send({ type: 'join', code: room.trim().toUpperCase() }),
+    /** Sends this tick's input and runs it locally straight away. */
+    tick: (input: RobberInput) => {
+      if (status !== 'playing' || !state) return;
+      const p = { seq: ++seq, input };
+      send({ type: 'input', ...p });
+      pending.push(p);
+      prev = state;
+      state = replay(state, p);
+    },
+    /** Terminal, ability and shop commands, applied locally as well as sent. Abilities are always your robber's. */
+    command: (command: ReplayCommandBody) => {
+      if (status !== 'playing' || !state) return;
+      const p = { seq: ++seq, command: command.type === 'useAbility' ? { ...command, robber } : command };
+      send({ type: 'command', ...p });
+      pending.push(p);
+      state = prev = replay(state, p);
+    },
+    /** Starts a new run in the same room once the current one is over. */
+    restart: (seed?: string) => send({ type: 'restart', seed }),
+    leave: () => {
+      send({ type: 'leave' });
+      status = 'closed';
+      conn.close();
+    },
+    onChange: (listener: () => void) => {
+      listeners.push(listener);
+    },
+    /** Events from the server since the last call; the local prediction's own are never reported. */
+    takeEvents: () => events.splice(0),
+    getState: () => state,
+    getPrevState: () => prev ?? state,
+    getStatus: () => status,
+    getCode: () => code,
+    getError: () => error,
+    getRobber: () => robber,
+    /** The room's tick as of the last snapshot. */
+    getServerTick: () => serverTick,
+    /** How far the last snapshot moved your robber from where it had been predicted, in pixels. */
+    getCorrection: () => correction,
+    /** Inputs sent but not yet in a snapshot; roughly the round trip in ticks. */
+    getPendingCount: () => pending.length,
+  };
+};
+
+export type NetClient = ReturnType<typeof createNetClient>;
@@ -0,0 +1,71 @@
+import { GameState, Noise, NoiseSource, Point, RobberIndex, Wall } from '../types';
+import { DISTRACTION_RADIUS, NOISE_METER_DECAY, NOISE_RING_TIME, NOISE_WALL_DAMPING } from './constants';
+import { wallsBetween } from './geometry';
+
+// Sounds the robber makes and who hears them. A noise spreads out evenly from
+// where it was made; every wall between it and a guard halves how far it
+// carries. Guards only get one chance to hear a noise, on the tick it is made
+// (or the next one, for noises made between ticks, like a wrong code), and
+// then it lingers for NOISE_RING_TIME so it can be drawn.
+// `interval` keeps continuous sources, like running footsteps, from making a
+// noise every single tick.
+
+export interface NoiseKind {
+  radius: number; // pixels it carries across open floor
+  interval: number; // minimum seconds between two of this kind
+}
+
+export const NOISES: Record<NoiseSource, NoiseKind> = {
+  sprint: { radius: 120, interval: 0.35 },
+  pickup: { radius: 80, interval: 0 },
+  wrongCode: { radius: 260, interval: 0 },
+  bump: { radius: 70, interval: NOISE_RING_TIME },
+  distraction: { radius: DISTRACTION_RADIUS, interval: 0 },
+};
+
+const LOUDEST = Math.max(...Object.values(NOISES).map(n => n.radius));
+
+export const createNoise = (source: NoiseSource, pos: Point, loudness = 1, robber?: RobberIndex): Noise =>
+  ({ source, pos, radius: NOISES[source].radius * loudness, age: 0, robber });
+
+/** False while `robber`'s last noise of this kind is too recent to make another. */
+export const canMakeNoise = (noises: Noise[], source: NoiseSource, robber: RobberIndex = 0) =>
+  !noises.some(n => n.source === source && (n.robber ?? 0) === robber && n.age < NOISES[source].interval);
+
+/** The noise meter after `noises` have been made, from 0 to 1. */
+export const noiseLevelWith = (level: number, noises: Noise[]) =>
+  noises.reduce((l, n) => Math.max(l, n.radius / LOUDEST), level);
+
+/** Records a noise made outside the tick, e.g. by a command; guards hear it on the next one. */
+export const addNoise = (state: GameState, noise: Noise): GameState => ({
+  ...state,
+  noises: [...state.noises, noise],
+  noiseLevel: noiseLevelWith(state.noiseLevel, [noise]),
+});
+
+/** How far `noise` carries towards `listener`, after the walls in between. */
+export const reachToward = (noise: Noise, listener: Point, walls: Wall[]) =>
+  noise.radius * NOISE_WALL_DAMPING ** wallsBetween(noise.pos, listener, walls);
+
+/** Where the clearest fresh noise a listener at `listener` hears came from, if any. */
+export const loudestHeard = (noises: Noise[], listener: Point, walls: Wall[]): Point | null => {
+  let best: Point | null = null;
+  let bestMargin = 0;
+  noises.forEach(n => {
+    if (n.age !== 0) return;
+    const dist = Math.hypot(listener.x - n.pos.x, listener.y - n.pos.y);
+    if (dist > n.radius) return; // out of reach even through open floor
+    const margin = reachToward(n, listener, walls) - dist;
+    if (margin >= 0 && (!best || margin > bestMargin)) {
+      best = n.pos;
+      bestMargin = margin;
+    }
+  });
+  return best;
+};
+
+/** Ages every noise by `dt` and drops the ones that are done showing, along with the meter. */
+export const tickNoises = (state: GameState, noises: Noise[], dt: number) => ({
+  noises: noises.map(n => ({ ...n, age: n.age + dt })).filter(n => n.age < NOISE_RING_TIME),
+  noiseLevel: noiseLevelWith(Math.max(0, state.noiseLevel - NOISE_METER_DECAY * dt), noises.filter(n => n.age === 0)),
+});
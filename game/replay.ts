@@ -0,0 +1,250 @@
+import { AbilityId, GadgetId, GameConfig, GameEvent, GameState, Point, Posture, RobberIndex, RobberInput, StepInput, UpgradeId } from '../types';
+import { activateAbility, buyGadget, closeShop } from './abilities';
+import { TICK_RATE } from './constants';
+import { createInitialState } from './generation';
+import { closeTerminal, submitCode } from './lock';
+import { configKey, DEFAULT_CONFIG } from './modes';
+import { hashSeed } from './rng';
+import { advance } from './simulation';
+import { buyUpgrade } from './upgrades';
+
+// Deterministic replays: a run is its seed (or starting snapshot, for resumed
+// runs) plus the movement input of every tick and the terminal, ability and
+// shop commands issued in between ticks. Feeding them back through `advance` rebuilds the exact same
+// GameState frame for frame, so replays double as regression fixtures.
+
+export const REPLAY_VERSION = 9; // v2: multi-room procedural floors, v3: postures and abilities, v4: upgrades, v5: lives, v6: security systems, v7: lamps, v8: noise, v9: co-op
+const KEYFRAME_INTERVAL = 300; // ticks between cached states for scrubbing
+
+export type ReplayCommandBody =
+  | { type: 'submitCode'; code: string }
+  | { type: 'closeTerminal' }
+  | { type: 'useAbility'; ability: AbilityId; robber?: RobberIndex }
+  | { type: 'buyGadget'; gadget: GadgetId }
+  | { type: 'buyUpgrade'; upgrade: UpgradeId }
+  | { type: 'closeShop' };
+export type ReplayCommand = ReplayCommandBody & { tick: number };
+type MoveTrack = [number, number, number, Posture?][];
+
+export interface Replay {
+  version: number;
+  seed: string;
+  campaign: string;
+  /** Missing on replays recorded before modes existed (Normal Classic). */
+  config?: GameConfig;
+  start?: GameState;
+  ticks: number;
+  /** [tick, x, y, posture]: the input from that tick until the next entry. Posture defaults to walk. */
+  moves: MoveTrack;
+  /** Co-op runs only: the partner's input, the same way. */
+  partnerMoves?: MoveTrack;
+  /** Applied before the step of their tick. */
+  commands: ReplayCommand[];
+  final: { score: number; floor: number; hash: number };
+}
+
+export const hashState = (state: GameState) => hashSeed(JSON.stringify(state));
+
+export const applyCommand = (state: GameState, command: ReplayCommandBody): { state: GameState; events: GameEvent[] } => {
+  switch (command.type) {
+    case 'submitCode': return submitCode(state, command.code);
+    case 'closeTerminal': return { state: closeTerminal(state), events: [] };
+    case 'useAbility': return activateAbility(state, command.ability, command.robber ?? 0);
+    case 'buyGadget': return buyGadget(state, command.gadget);
+    case 'buyUpgrade': return buyUpgrade(state, command.upgrade);
+    case 'closeShop': return { state: closeShop(state), events: [] };
+  }
+};
+
+const IDLE: RobberInput = { move: { x: 0, y: 0 }, posture: 'walk' };
+
+// Appends `input` to `track` if it differs from the entry before.
+const recordMove = (track: MoveTrack, tick: number, { move, posture }: RobberInput) => {
+  const last = track[track.length - 1];
+  if (last && last[1] === move.x && last[2] === move.y && (last[3] ?? 'walk') === posture) return;
+  track.push(posture === 'walk' ? [tick, move.x, move.y] : [tick, move.x, move.y, posture]);
+};
+
+const moveAt = (entry: MoveTrack[number] | undefined): RobberInput =>
+  entry ? { move: { x: entry[1], y: entry[2] }, posture: entry[3] ?? 'walk' } : IDLE;
+
+/**
+ * Records a run from `initial`; a resumed run keeps it as its starting
+ * snapshot. Saves load paused and un-pausing isn't a command, so the snapshot
+ * is kept running or playback would never get past its first tick.
+ */
+export const createRecorder = (loaded: GameState, resumed = false) => {
+  const initial = resumed ? { ...loaded, isPaused: false } : loaded;
+  let ticks = 0;
+  const moves: MoveTrack = [];
+  const partnerMoves: MoveTrack = [];
+  const commands: ReplayCommand[] = [];
+
+  return {
+    tick: (input: StepInput) => {
+      recordMove(moves, ticks, input);
+      if (initial.partner) recordMove(partnerMoves, ticks, input.partner ?? IDLE);
+      ticks++;
+    },
+    command: (command: ReplayCommandBody) => {
+      commands.push({ ...command, tick: ticks });
+    },
+    finish: (final: GameState): Replay => ({
+      version: REPLAY_VERSION,
+      seed: initial.seed,
+      campaign: initial.campaign,
+      config: initial.config,
+      ...(resumed ? { start: initial } : {}),
+      ticks,
+      moves: [...moves],
+      ...(initial.partner ? { partnerMoves: [...partnerMoves] } : {}),
+      commands: [...commands],
+      final: { score: final.stats.loot, floor: final.currentFloor, hash: hashState(final) },
+    }),
+  };
+};
+
+export type Recorder = ReturnType<typeof createRecorder>;
+
+export const createPlayback = (replay: Replay) => {
+  const dt = 1 / TICK_RATE;
+  const initial = replay.start ?? createInitialState(replay.seed, replay.campaign, replay.config ?? DEFAULT_CONFIG);
+  let state = initial;
+  let prev = initial;
+  let tick = 0;
+  let moveIdx = -1;
+  let partnerIdx = -1;
+  let cmdIdx = 0;
+  const partnerMoves = replay.partnerMoves ?? [];
+  const keyframes = new Map([[0, { state, moveIdx, partnerIdx, cmdIdx }]]);
+
+  const step = (): GameEvent[] => {
+    const events: GameEvent[] = [];
+    while (cmdIdx < replay.commands.length && replay.commands[cmdIdx].tick <= tick) {
+      const result = applyCommand(state, replay.commands[cmdIdx++]);
+      state = result.state;
+      events.push(...result.events);
+    }
+    while (moveIdx + 1 < replay.moves.length && replay.moves[moveIdx + 1][0] <= tick) moveIdx++;
+    while (partnerIdx + 1 < partnerMoves.length && partnerMoves[partnerIdx + 1][0] <= tick) partnerIdx++;
+    const input: StepInput = state.partner
+      ? { ...moveAt(replay.moves[moveIdx]), partner: moveAt(partnerMoves[partnerIdx]) }
+      : moveAt(replay.moves[moveIdx]);
+
+    prev = state;
+    const result = advance(state, input, dt);
+    state = result.state;
+    events.push(...result.events);
+    tick++;
+    if (tick % KEYFRAME_INTERVAL === 0 && !keyframes.has(tick)) keyframes.set(tick, { state, moveIdx, partnerIdx, cmdIdx });
+    return events;
+  };
+
+  /** Jumps to `target`, rewinding to the closest earlier keyframe if needed. */
+  const seek = (target: number) => {
+    const clamped = Math.max(0, Math.min(replay.ticks, Math.floor(target)));
+    if (clamped < tick) {
+      // Every keyframe up to the current tick has already been recorded.
+      let from = Math.floor(clamped / KEYFRAME_INTERVAL) * KEYFRAME_INTERVAL;
+      while (!keyframes.has(from)) from -= KEYFRAME_INTERVAL;
+      ({ state, moveIdx, partnerIdx, cmdIdx } = keyframes.get(from)!);
+      tick = from;
+    }
+    while (tick < clamped) step();
+    prev = state;
+  };
+
+  return {
+    step,
+    seek,
+    getState: () => state,
+    getPrevState: () => prev,
+    getTick: () => tick,
+    isDone: () => tick >= replay.ticks,
+  };
+};
+
+export type Playback = ReturnType<typeof createPlayback>;
+
+/** Re-runs a replay headlessly and checks it lands on the recorded final state. */
+export const verifyReplay = (replay: Replay) => {
+  const playback = createPlayback(replay);
+  while (!playback.isDone()) playback.step();
+  return hashState(playback.getState()) === replay.final.hash;
+};
+
+export const parseReplay = (text: string): Replay | null => {
+  try {
+    const replay = JSON.parse(text);
+    const valid =
+      replay?.version === REPLAY_VERSION &&
+      typeof replay.seed === 'string' &&
+      typeof replay.campaign === 'string' &&
+      typeof replay.ticks === 'number' &&
+      Array.isArray(replay.moves) &&
+      Array.isArray(replay.commands) &&
+      typeof replay.final?.hash === 'number';
+    return valid ? replay : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+export const downloadReplay = (replay: Replay) => {
+  const blob = new Blob([JSON.stringify(replay)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `heist-${replay.seed}-${replay.final.score}.json`;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+// Analog input is rounded before it's recorded or simulated so replays of
+// gamepad and stick runs stay small.
+export const quantizeMove = (move: Point): Point => ({
+  x: Math.round(move.x * 100) / 100,
+  y: Math.round(move.y * 100) / 100,
+});
+
+const GHOSTS_KEY = 'heist.ghosts';
+const MAX_GHOSTS = 10;
+
+const loadGhosts = (): Replay[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(GHOSTS_KEY) ?? '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+const ghostKey = (replay: Replay) => configKey(replay.config ?? DEFAULT_CONFIG);
+
+/** The best recorded run on this seed, campaign and config, if any. */
+export const loadGhost = (seed: string, campaign: string, config: GameConfig) =>
+  loadGhosts().find(g =>
+    g.version === REPLAY_VERSION && g.seed === seed && g.campaign === campaign &&
+    ghostKey(g) === configKey(config) && !g.start,
+  ) ?? null;
+
+/** Keeps `replay` as the ghost for its seed if it beats the current one. */
+export const saveGhost = (replay: Replay) => {
+  if (replay.start) return;
+  const ghosts = loadGhosts();
+  const sameRun = (g: Replay) =>
+    g.seed === replay.seed && g.campaign === replay.campaign && ghostKey(g) === ghostKey(replay);
+  const current = ghosts.find(g => g.version === REPLAY_VERSION && sameRun(g));
+  if (current && current.final.score >= replay.final.score) return;
+  const next = [replay, ...ghosts.filter(g => !sameRun(g))].slice(0, MAX_GHOSTS);
+  try {
+    localStorage.setItem(GHOSTS_KEY, JSON.stringify(next));
+  } catch (e) {
+    // Out of space: keep only the new ghost
+    try {
+      localStorage.setItem(GHOSTS_KEY, JSON.stringify([replay]));
+    } catch (inner) {
+      // Give up quietly
+    }
+  }
+};
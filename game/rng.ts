@@ -0,0 +1,45 @@
+// Seeded PRNG (mulberry32). Every floor layout is derived from the run seed so
+// a run can be reproduced exactly from the seed alone.
+
+export interface Rng {
+  /** Float in [0, 1). */
+  next: () => number;
+  /** Float in [min, max). */
+  range: (min: number, max: number) => number;
+  /** Integer in [min, max]. */
+  int: (min: number, max: number) => number;
+}
+
+export const createRng = (seed: number): Rng => {
+  let a = seed >>> 0;
+  const next = () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    next,
+    range: (min, max) => min + next() * (max - min),
+    int: (min, max) => min + Math.floor(next() * (max - min + 1)),
+  };
+};
+
+// FNV-1a, so any typed-in text can be used as a seed.
+export const hashSeed = (text: string): number => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+export const createFloorRng = (seed: string, floor: number) => createRng(hashSeed(`${seed}#${floor}`));
+
+export const randomSeed = () => Math.floor(Math.random() * 0xffffffff).toString(36).toUpperCase();
+
+export const dailySeed = (date: Date = new Date()) => `DAILY-${date.toISOString().slice(0, 10)}`;
+
+export const normalizeSeed = (text: string) => text.trim().toUpperCase().slice(0, 32);
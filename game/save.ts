@@ -0,0 +1,175 @@
+import { GameState } from '../types';
+import { DEFAULT_WORLD } from './constants';
+import { createAbilityState } from './abilities';
+import { asObject, isNum, isPoint } from './json';
+import { DEFAULT_CONFIG, isGameConfig } from './modes';
+import { createUpgrades } from './upgrades';
+
+// Versioned save format for an in-progress run, kept in localStorage.
+// When GameState changes shape, bump SAVE_VERSION and add a migration from the
+// previous version; saves that can't be migrated or fail validation are dropped.
+
+export const SAVE_VERSION = 12;
+const SAVE_KEY = 'heist.save';
+
+interface SaveFile {
+  version: number;
+  savedAt: number;
+  state: unknown;
+}
+
+type SavedState = Record<string, unknown>;
+type Migration = (state: SavedState) => SavedState;
+
+const numOr = (v: unknown, fallback: number) => (isNum(v) ? v : fallback);
+
+// MIGRATIONS[n] upgrades a version-n state to version n + 1.
+const MIGRATIONS: Record<number, Migration> = {
+  // v2 added per-run stats. Older runs start counting from the floor they are on.
+  1: (state) => ({
+    ...state,
+    stats: {
+      billsCollected: 0,
+      billsAvailable: Array.isArray(state.money) ? state.money.length : 0,
+      nearMisses: 0,
+      wrongCodes: 0,
+      floorTimes: [],
+      floorElapsed: 0,
+      elapsed: 0,
+      closeGuards: [],
+    },
+  }),
+  // v3 added authored campaigns. Older runs were fully procedural.
+  2: (state) => ({ ...state, campaign: '', spawnPos: { x: 30, y: 30 } }),
+  // v4 added difficulty and modes. Older runs were Normal Classic.
+  3: (state) => ({ ...state, config: DEFAULT_CONFIG }),
+  // v5 added floors bigger than the screen. Older floors were exactly one screen.
+  4: (state) => ({ ...state, world: { ...DEFAULT_WORLD } }),
+  // v6 added postures, abilities and the gadget shop. Older runs start with the default kit.
+  5: (state) => ({
+    ...state,
+    ...createAbilityState(),
+    showShop: false,
+    guards: Array.isArray(state.guards) ? state.guards.map(g => ({ ...asObject(g), stunTimer: 0 })) : state.guards,
+  }),
+  // v7 added run upgrades, spare lives, the floor summary and the run's total
+  // loot. Older runs count what they have left as their loot.
+  6: (state) => ({
+    ...state,
+    lastFloor: null,
+    upgrades: createUpgrades(),
+    lives: 0,
+    stats: { ...asObject(state.stats), floorLoot: 0, loot: numOr(state.score, 0) },
+  }),
+  // v8 counts the current life in `lives` and added the capture sequence.
+  7: (state) => ({
+    ...state,
+    lives: numOr(state.lives, 0) + 1,
+    busted: null,
+    gameOverReason: null,
+  }),
+  // v9 added cameras, lasers, vaults and alarm panels. Older floors had none.
+  8: (state) => ({ ...state, cameras: [], lasers: [], vaults: [], alarmPanels: [], alarmTimer: 0 }),
+  // v10 added lamps. Older floors stay dark until the next one.
+  9: (state) => ({ ...state, lamps: [] }),
+  // v11 added noises and the noise meter.
+  10: (state) => ({ ...state, noises: [], noiseLevel: 0 }),
+  // v12 added local co-op. Older runs were solo, so all their loot is the first robber's.
+  11: (state) => {
+    const stats = asObject(state.stats);
+    return {
+      ...state,
+      partner: null,
+      downed: null,
+      stats: { ...stats, lootBy: [numOr(stats?.loot, 0), 0], floorLootBy: [numOr(stats?.floorLoot, 0), 0] },
+    };
+  },
+};
+
+const isGuard = (v: unknown) => {
+  const g = asObject(v);
+  return !!g && isPoint(g.pos) && Array.isArray(g.path) && g.path.length > 0;
+};
+
+const isGameState = (v: unknown): v is GameState => {
+  const s = asObject(v);
+  const world = asObject(s?.world);
+  const stats = asObject(s?.stats);
+  return !!s && !!world && !!stats &&
+    typeof s.seed === 'string' &&
+    typeof s.campaign === 'string' &&
+    isGameConfig(s.config) &&
+    isNum(s.currentFloor) &&
+    isNum(s.score) &&
+    isNum(s.timeLeft) &&
+    typeof s.password === 'string' &&
+    isPoint(s.playerPos) &&
+    isPoint(s.doorPos) &&
+    isPoint(s.spawnPos) &&
+    isNum(world.width) && isNum(world.height) &&
+    Array.isArray(s.walls) &&
+    Array.isArray(s.money) &&
+    Array.isArray(s.fragments) &&
+    Array.isArray(s.guards) && s.guards.every(isGuard) &&
+    Array.isArray(s.effects) && Array.isArray(s.noises) && !!asObject(s.cooldowns) && !!asObject(s.gadgets) && isNum(s.stamina) &&
+    !!asObject(s.upgrades) && isNum(s.lives) &&
+    Array.isArray(s.cameras) && Array.isArray(s.lasers) && Array.isArray(s.vaults) && Array.isArray(s.alarmPanels) &&
+    Array.isArray(s.lamps) &&
+    (s.partner === null || isPoint(asObject(s.partner)?.pos)) &&
+    Array.isArray(stats.floorTimes) && isNum(stats.elapsed) && isNum(stats.loot) &&
+    Array.isArray(stats.lootBy) && Array.isArray(stats.floorLootBy);
+};
+
+export const serializeRun = (state: GameState): string =>
+  JSON.stringify({ version: SAVE_VERSION, savedAt: Date.now(), state } satisfies SaveFile);
+
+/** Parses and migrates a save. Returns null for anything unusable. */
+export const deserializeRun = (raw: string): GameState | null => {
+  try {
+    const file = asObject(JSON.parse(raw));
+    if (!file || !isNum(file.version) || file.version > SAVE_VERSION) return null;
+
+    let state = file.state;
+    for (let v = file.version; v < SAVE_VERSION; v++) {
+      const migrate = MIGRATIONS[v];
+      const saved = asObject(state);
+      if (!migrate || !saved) return null;
+      state = migrate(saved);
+    }
+    if (!isGameState(state)) return null;
+    // A resumed run always starts paused, with the terminal closed.
+    return { ...state, isPaused: true, showTerminal: false };
+  } catch (e) {
+    return null;
+  }
+};
+
+export const saveRun = (state: GameState) => {
+  try {
+    if (state.isGameOver) localStorage.removeItem(SAVE_KEY);
+    else localStorage.setItem(SAVE_KEY, serializeRun(state));
+  } catch (e) {
+    // Storage unavailable or full: the run just won't be resumable
+  }
+};
+
+export const clearSave = () => {
+  try {
+    localStorage.removeItem(SAVE_KEY);
+  } catch (e) {
+    // Nothing to clear
+  }
+};
+
+/** The saved run, if any. A corrupt or outdated save is removed. */
+export const loadSave = (): GameState | null => {
+  try {
+    const raw = localStorage.getItem(SAVE_KEY);
+    if (!raw) return null;
+    const state = deserializeRun(raw);
+    if (!state) localStorage.removeItem(SAVE_KEY);
+    return state;
+  } catch (e) {
+    return null;
+  }
+};
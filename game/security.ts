@@ -0,0 +1,127 @@
+import { AlarmPanel, GameEvent, GameState, Guard, LaserGrid, Point, RobberIndex, SecurityCamera, Vault, Wall } from '../types';
+import {
+  ALARM_DURATION, CAMERA_DETECT_TIME, CAMERA_HALF_ANGLE, CAMERA_RANGE, PICKUP_RANGE, PLAYER_SIZE, SEARCH_DURATION,
+  SUSPICION_DECAY, VAULT_HACK_RANGE, VAULT_HACK_TIME,
+} from './constants';
+import { angleDiff, center, hasLineOfSight } from './geometry';
+import { createGuard, patrolSpeed } from './generation';
+import { settingsFor } from './modes';
+
+// Floor security that isn't a guard: cameras and lasers raise the alarm,
+// alarm panels answer it with reinforcements, vaults hold the big scores.
+// Cameras and lasers run off the floor clock, so they need no state of their
+// own beyond suspicion and EMP knockouts.
+
+export const cameraAngle = (cam: SecurityCamera, t: number) =>
+  cam.baseAngle + cam.sweep * Math.sin(t * cam.sweepSpeed + cam.phase);
+
+export const laserActive = (laser: LaserGrid, t: number) =>
+  laser.disabledTimer <= 0 && (t + laser.phase) % laser.period < laser.onTime;
+
+const touches = (pos: Point, size: number, r: Wall, gap = 0) =>
+  pos.x < r.x + r.w + gap && pos.x + size > r.x - gap && pos.y < r.y + r.h + gap && pos.y + size > r.y - gap;
+
+const cameraSees = (cam: SecurityCamera, t: number, playerPos: Point, walls: Wall[], visibility: number) => {
+  if (cam.disabledTimer > 0 || visibility <= 0) return false;
+  const target = center(playerPos, PLAYER_SIZE);
+  const dist = Math.hypot(target.x - cam.pos.x, target.y - cam.pos.y);
+  if (dist > CAMERA_RANGE * visibility) return false;
+  const bearing = Math.atan2(target.y - cam.pos.y, target.x - cam.pos.x);
+  if (Math.abs(angleDiff(bearing, cameraAngle(cam, t))) > CAMERA_HALF_ANGLE) return false;
+  return hasLineOfSight(cam.pos, target, walls);
+};
+
+/**
+ * Every guard not already chasing heads for `at`, and each armed panel sends
+ * one more guard from where it hangs. Reinforcements stay for the rest of the floor.
+ */
+export const raiseAlarm = (state: GameState, guards: Guard[], at: Point, source: string) => {
+  const events: GameEvent[] = [{ type: 'alarmRaised', source }];
+  const lastKnownPos = { x: at.x - PLAYER_SIZE / 2, y: at.y - PLAYER_SIZE / 2 };
+  const search = (g: Guard): Guard => g.mode === 'alert' || g.stunTimer > 0
+    ? g
+    : { ...g, mode: 'search', lastKnownPos, modeTimer: SEARCH_DURATION, route: [], routeGoal: null };
+
+  const called: Guard[] = [];
+  const alarmPanels = state.alarmPanels.map((p): AlarmPanel => {
+    if (p.status !== 'armed') return p;
+    const id = `guard-${guards.length + called.length}`;
+    const speed = patrolSpeed(state.currentFloor, settingsFor(state.config).guardSpeed);
+    called.push(search(createGuard(id, [{ ...p.pos }, lastKnownPos], speed)));
+    events.push({ type: 'reinforcementsCalled', panelId: p.id, guardId: id });
+    return { ...p, status: 'triggered' };
+  });
+
+  return { guards: [...guards.map(search), ...called], alarmPanels, alarmTimer: ALARM_DURATION, events };
+};
+
+/** A robber on their feet, as the floor's security sees them. */
+export interface Intruder {
+  robber: RobberIndex;
+  pos: Point; // top-left corner
+  visibility: number; // as in Perception
+}
+
+/**
+ * One tick of the floor's security around the robbers in `intruders`. Runs
+ * after the guards have moved, since an alarm redirects them. `loot` is what
+ * each robber cracked out of vaults, by RobberIndex.
+ */
+export const updateSecurity = (prev: GameState, intruders: Intruder[], guards: Guard[], dt: number) => {
+  const events: GameEvent[] = [];
+  const t = prev.stats.floorElapsed;
+  let tripped: { by: string; at: Point } | null = null;
+  const trip = (by: string, robber: Intruder) => {
+    tripped ??= { by, at: center(robber.pos, PLAYER_SIZE) };
+  };
+
+  const cameras = prev.cameras.map((cam): SecurityCamera => {
+    const disabledTimer = Math.max(0, cam.disabledTimer - dt);
+    const seen = intruders.find(r => cameraSees(cam, t, r.pos, prev.walls, r.visibility));
+    const suspicion = seen
+      ? Math.min(1, cam.suspicion + dt / CAMERA_DETECT_TIME)
+      : Math.max(0, cam.suspicion - SUSPICION_DECAY * dt);
+    if (suspicion >= 1 && seen) trip(cam.id, seen);
+    return { ...cam, disabledTimer, suspicion: suspicion >= 1 ? 0 : suspicion };
+  });
+
+  const lasers = prev.lasers.map(l => ({ ...l, disabledTimer: Math.max(0, l.disabledTimer - dt) }));
+  lasers.forEach(l => {
+    const crossing = laserActive(l, t) && intruders.find(r => touches(r.pos, PLAYER_SIZE, l.rect));
+    if (crossing) trip(l.id, crossing);
+  });
+
+  // Reaching a panel first cuts its wires.
+  let alarmPanels = prev.alarmPanels.map((p): AlarmPanel => {
+    const near = intruders.some(r => {
+      const c = center(r.pos, PLAYER_SIZE);
+      return Math.hypot(c.x - p.pos.x, c.y - p.pos.y) <= PICKUP_RANGE;
+    });
+    if (p.status !== 'armed' || !near) return p;
+    events.push({ type: 'panelCut', panelId: p.id });
+    return { ...p, status: 'cut' };
+  });
+
+  // Cracking a vault takes someone standing beside it without a break.
+  const loot = [0, 0];
+  const vaults = prev.vaults.map((v): Vault => {
+    if (v.opened) return v;
+    const cracker = intruders.find(r => touches(r.pos, PLAYER_SIZE, v.rect, VAULT_HACK_RANGE));
+    if (!cracker) return v.progress > 0 ? { ...v, progress: 0 } : v;
+    const progress = v.progress + dt;
+    if (progress < VAULT_HACK_TIME) return { ...v, progress };
+    const value = Math.round(v.value * settingsFor(prev.config).scoreMultiplier);
+    loot[cracker.robber] += value;
+    events.push({ type: 'vaultOpened', id: v.id, value });
+    return { ...v, progress: VAULT_HACK_TIME, opened: true };
+  });
+
+  let alarmTimer = Math.max(0, prev.alarmTimer - dt);
+  if (tripped && alarmTimer <= 0) {
+    const alarm = raiseAlarm({ ...prev, alarmPanels }, guards, tripped.at, tripped.by);
+    ({ guards, alarmPanels, alarmTimer } = alarm);
+    events.push(...alarm.events);
+  }
+
+  return { cameras, lasers, vaults, alarmPanels, alarmTimer, guards, loot, events };
+};
@@ -0,0 +1,354 @@
+import {
+  Busted, GameEvent, GameState, Guard, Noise, Partner, Point, Posture, RobberIndex, RobberInput, Size, StepInput, StepResult, Wall,
+} from '../types';
+import {
+  BUSTED_DURATION, CROUCH_NOISE, CROUCH_VISIBILITY, DOWNED_TIME, GUARD_SIZE, NEAR_MISS_DISTANCE, PICKUP_RANGE, PLAYER_SIZE,
+  REVIVE_TIME, SPEED, TICK_RATE,
+} from './constants';
+import { inSmoke, postureSpeed, resolvePosture, tickAbilities, tickStamina } from './abilities';
+import { canRevive, createPartner, isDowned, leashBounds, Robber, robberPos, robbersOf } from './coop';
+import { center, collidesWithWalls } from './geometry';
+import { canSeePlayer, updateGuard } from './guards';
+import { advanceFloor, createGuard } from './generation';
+import { revealDigit } from './lock';
+import { canMakeNoise, createNoise, loudestHeard, tickNoises } from './noise';
+import { Intruder, updateSecurity } from './security';
+import { settingsFor } from './modes';
+import { upgradeBonus } from './upgrades';
+
+// Pure game rules. No React, canvas or audio in here: `step` takes a state and
+// returns the next one plus the events the caller may want to react to
+// (sounds, floor transitions, UI).
+
+const IDLE: RobberInput = { move: { x: 0, y: 0 }, posture: 'walk' };
+
+// Mostly heading into a wall, rather than brushing along it on a diagonal.
+const BUMP_THRESHOLD = 0.75;
+
+// Moves one axis at a time so the robber slides along walls on diagonals,
+// never leaving `bounds` (a box for their top-left corner). `bumped` is set
+// when they run more or less straight into a wall.
+const movePlayer = (pos: Point, move: Point, walls: Wall[], bounds: Wall, dist: number) => {
+  let { x, y } = pos;
+  let bumped = false;
+
+  const nx = Math.max(bounds.x, Math.min(bounds.x + bounds.w, x + move.x * dist));
+  if (move.x !== 0 && !collidesWithWalls(nx, y, PLAYER_SIZE, walls)) x = nx;
+  else if (Math.abs(move.x) > BUMP_THRESHOLD) bumped = true;
+  const ny = Math.max(bounds.y, Math.min(bounds.y + bounds.h, y + move.y * dist));
+  if (move.y !== 0 && !collidesWithWalls(x, ny, PLAYER_SIZE, walls)) y = ny;
+  else if (Math.abs(move.y) > BUMP_THRESHOLD) bumped = true;
+
+  return { pos: { x, y }, bumped };
+};
+
+// Inside the world, and in co-op within a screen of the other robber.
+const boundsFor = (world: Size, other: Point | null): Wall => {
+  let left = 10;
+  let top = 10;
+  let right = world.width - PLAYER_SIZE - 10;
+  let bottom = world.height - PLAYER_SIZE - 10;
+  if (other) {
+    const leash = leashBounds(other);
+    left = Math.max(left, leash.x);
+    top = Math.max(top, leash.y);
+    right = Math.min(right, leash.x + leash.w);
+    bottom = Math.min(bottom, leash.y + leash.h);
+  }
+  return { x: left, y: top, w: right - left, h: bottom - top };
+};
+
+// One robber's move for this tick. Standing still isn't sprinting, so it
+// doesn't burn stamina or make noise; a downed robber can't move at all.
+const moveRobber = (prev: GameState, robber: Robber, input: RobberInput, other: Point | null, speed: number) => {
+  if (isDowned(prev, robber.index)) return { ...robber, posture: 'walk' as Posture, bumped: false };
+  const moving = input.move.x !== 0 || input.move.y !== 0;
+  const posture = resolvePosture(moving ? input.posture : input.posture === 'sprint' ? 'walk' : input.posture, robber.stamina);
+  const { pos, bumped } = movePlayer(robber.pos, input.move, prev.walls, boundsFor(prev.world, other), speed * postureSpeed(posture));
+  const facing = moving ? Math.atan2(input.move.y, input.move.x) : robber.facing;
+  return { ...robber, pos, facing, posture, bumped };
+};
+
+// On easier settings the robber keeps what they grabbed on this floor;
+// otherwise the cash goes back where it was.
+const dropFloorLoot = (state: GameState): GameState => {
+  const dropped = state.money.filter(m => m.collected).length;
+  const { stats } = state;
+  return {
+    ...state,
+    score: state.score - stats.floorLoot,
+    money: state.money.map(m => ({ ...m, collected: false })),
+    vaults: state.vaults.map(v => ({ ...v, progress: 0, opened: false })),
+    stats: {
+      ...stats,
+      billsCollected: stats.billsCollected - dropped,
+      floorLoot: 0,
+      loot: stats.loot - stats.floorLoot,
+      lootBy: stats.lootBy.map((loot, i) => loot - stats.floorLootBy[i]),
+      floorLootBy: [0, 0],
+    },
+  };
+};
+
+// Back to the floor entrance with the guards starting their rounds afresh.
+// Fragments already found stay found.
+const respawn = (state: GameState): GameState => {
+  const next: GameState = {
+    ...state,
+    lives: state.lives - 1,
+    busted: null,
+    playerPos: { ...state.spawnPos },
+    partner: state.partner && createPartner(state.spawnPos, state.walls),
+    downed: null,
+    guards: state.guards.map(g => createGuard(g.id, g.path, g.speed)),
+    effects: [],
+    noises: [],
+    noiseLevel: 0,
+    stamina: 1,
+    alarmTimer: 0,
+    stats: { ...state.stats, closeGuards: [] },
+  };
+  return settingsFor(state.config).keepLoot ? next : dropFloorLoot(next);
+};
+
+// The world holds still while the capture plays out, then the robber either
+// respawns or, on their last life, the run ends.
+const stepBusted = (prev: GameState, busted: Busted, dt: number): StepResult => {
+  const timeLeft = busted.timeLeft - dt;
+  if (timeLeft > 0) return { state: { ...prev, busted: { ...busted, timeLeft } }, events: [] };
+  if (prev.lives > 1) return { state: respawn(prev), events: [{ type: 'respawned', livesLeft: prev.lives - 1 }] };
+  return {
+    state: { ...prev, lives: 0, busted: null, isGameOver: true, gameOverReason: busted.reason },
+    events: [busted.reason === 'caught' ? { type: 'caught', guardId: busted.by } : { type: 'detected', by: busted.by }],
+  };
+};
+
+// Ghost mode: whatever sees a robber, a guard, a camera or a laser, catches them.
+const spottedBy = (events: GameEvent[]) => {
+  const spotted = events.find(e => e.type === 'guardAlerted' || e.type === 'alarmRaised');
+  if (spotted?.type === 'guardAlerted') return { by: spotted.guardId, event: spotted };
+  if (spotted?.type === 'alarmRaised') return { by: spotted.source, event: spotted };
+  return null;
+};
+
+// The guard a robber is up against: the nearest one it can see, else the
+// nearest one still on their feet. Solo runs only ever have the one robber.
+const targetFor = (g: Guard, intruders: Intruder[], walls: Wall[]) => {
+  if (intruders.length === 1) return intruders[0];
+  const eye = center(g.pos, GUARD_SIZE);
+  const dist = (r: Intruder) => Math.hypot(r.pos.x - eye.x, r.pos.y - eye.y);
+  const byDistance = [...intruders].sort((a, b) => dist(a) - dist(b));
+  return byDistance.find(r => canSeePlayer(g, r.pos, walls, r.visibility)) ?? byDistance[0];
+};
+
+export const step = (prev: GameState, input: StepInput, dt: number): StepResult => {
+  const events: GameEvent[] = [];
+  if (prev.isPaused || prev.isGameOver || prev.showTerminal || prev.showShop) return { state: prev, events };
+  if (prev.busted) return stepBusted(prev, prev.busted, dt);
+
+  const settings = settingsFor(prev.config);
+  if (settings.timer && prev.timeLeft <= 0) {
+    events.push({ type: 'timeUp' });
+    return { state: { ...prev, isGameOver: true, gameOverReason: 'timeUp' }, events };
+  }
+
+  // The partner moves second, leashed to where the first robber has just got to.
+  const scale = dt * TICK_RATE;
+  const speed = SPEED * settings.playerSpeed * (1 + upgradeBonus(prev, 'speed')) * scale;
+  const [first, second] = robbersOf(prev);
+  const player = moveRobber(prev, first, input, second?.pos ?? null, speed);
+  const partner = second && moveRobber(prev, second, input.partner ?? IDLE, player.pos, speed);
+  const robbers = partner ? [player, partner] : [player];
+  const playerPos = player.pos;
+  const standing = robbers.filter(r => !isDowned(prev, r.index));
+
+  // Noises made this tick; crouching muffles the clumsy ones.
+  const made: Noise[] = [];
+  const quietlyFor = (r: typeof player) => (r.posture === 'crouch' ? CROUCH_NOISE : 1);
+  robbers.forEach(r => {
+    const c = center(r.pos, PLAYER_SIZE);
+    if (r.posture === 'sprint' && canMakeNoise(prev.noises, 'sprint', r.index)) made.push(createNoise('sprint', c, 1, r.index));
+    if (r.bumped && canMakeNoise(prev.noises, 'bump', r.index)) made.push(createNoise('bump', c, quietlyFor(r), r.index));
+  });
+
+  // Pickups go to the first robber on their feet within reach.
+  const reach = PICKUP_RANGE + upgradeBonus(prev, 'pickup');
+  const grabber = (pos: Point) => standing.find(r => Math.abs(r.pos.x - pos.x) < reach && Math.abs(r.pos.y - pos.y) < reach);
+
+  // Money collection
+  let score = prev.score;
+  let floorLoot = prev.stats.floorLoot;
+  let loot = prev.stats.loot;
+  let billsCollected = prev.stats.billsCollected;
+  const lootBy = [...prev.stats.lootBy];
+  const floorLootBy = [...prev.stats.floorLootBy];
+  const credit = (robber: RobberIndex, value: number) => {
+    score += value;
+    floorLoot += value;
+    loot += value;
+    lootBy[robber] += value;
+    floorLootBy[robber] += value;
+  };
+  const money = prev.money.map(m => {
+    const by = m.collected ? undefined : grabber(m.pos);
+    if (!by) return m;
+    events.push({ type: 'moneyCollected', id: m.id, value: m.value });
+    made.push(createNoise('pickup', m.pos, quietlyFor(by), by.index));
+    credit(by.index, Math.round(m.value * settings.scoreMultiplier));
+    billsCollected++;
+    return { ...m, collected: true };
+  });
+
+  // Password fragments
+  let lastPasswordFound = prev.lastPasswordFound;
+  const fragments = prev.fragments.map(f => {
+    if (f.collected || !grabber(f.pos)) return f;
+    events.push({ type: 'fragmentCollected', id: f.id, digit: prev.password[f.digitIndex] });
+    lastPasswordFound = revealDigit(lastPasswordFound, prev.password, f.digitIndex);
+    return { ...f, collected: true };
+  });
+
+  // Guard movement & capture. Guards hear this tick's noises and any made
+  // since the last one, e.g. a wrong code at the terminal. A downed robber
+  // is no longer anyone's concern.
+  const intruders: Intruder[] = standing.map(r => ({
+    robber: r.index,
+    pos: r.pos,
+    visibility: inSmoke(prev, r.pos) ? 0 : r.posture === 'crouch' ? CROUCH_VISIBILITY : 1,
+  }));
+  const noises = [...prev.noises, ...made];
+  const moved = prev.guards.map(g => {
+    const noise = loudestHeard(noises, center(g.pos, GUARD_SIZE), prev.walls);
+    const target = targetFor(g, intruders, prev.walls);
+    const result = updateGuard(g, target.pos, prev.walls, prev.world, dt, scale, { visibility: target.visibility, noise });
+    events.push(...result.events);
+    return result.guard;
+  });
+
+  // Cameras, lasers, panels and vaults; an alarm sends the guards running.
+  const security = updateSecurity(prev, intruders, moved, dt);
+  let { guards } = security;
+  events.push(...security.events);
+  security.loot.forEach((value, robber) => {
+    if (value > 0) credit(robber as RobberIndex, value);
+  });
+
+  // Near misses: count each guard once per approach, by whichever robber.
+  const closeGuards = guards
+    .filter(g => {
+      const c = center(g.pos, GUARD_SIZE);
+      return standing.some(r => {
+        const rc = center(r.pos, PLAYER_SIZE);
+        return Math.hypot(c.x - rc.x, c.y - rc.y) < NEAR_MISS_DISTANCE;
+      });
+    })
+    .map(g => g.id);
+  const newlyClose = closeGuards.filter(id => !prev.stats.closeGuards.includes(id)).length;
+
+  // A robber caught while their partner is still free goes down instead; the
+  // guard walks off and the partner has until the guards come back to help.
+  // Catching the last robber standing, or running out the clock on a downed
+  // one, is a bust.
+  let downed = prev.downed;
+  let bustedBy: string | null = null;
+  if (downed) {
+    const helper = standing[0];
+    const revive = helper && canRevive(helper.pos, robbers[downed.robber].pos) ? downed.revive + dt : 0;
+    if (revive >= REVIVE_TIME) {
+      events.push({ type: 'robberRevived', robber: downed.robber });
+      downed = null;
+    } else if (downed.timeLeft - dt <= 0) {
+      bustedBy = downed.guardId;
+    } else {
+      downed = { ...downed, timeLeft: downed.timeLeft - dt, revive };
+    }
+  }
+  for (const r of standing) {
+    if (bustedBy) break;
+    const catcher = guards.find(g => Math.abs(r.pos.x - g.pos.x) < 20 && Math.abs(r.pos.y - g.pos.y) < 20);
+    if (!catcher) continue;
+    if (!partner || downed) {
+      bustedBy = catcher.id;
+      break;
+    }
+    downed = { robber: r.index, guardId: catcher.id, timeLeft: DOWNED_TIME, revive: 0 };
+    events.push({ type: 'robberDowned', robber: r.index, guardId: catcher.id });
+    guards = guards.map(g => (g === catcher ? { ...g, mode: 'return', suspicion: 0, lastKnownPos: null, route: [], routeGoal: null } : g));
+  }
+
+  const partnerState: Partner | null = partner ? {
+    pos: partner.pos,
+    facing: partner.facing,
+    posture: partner.posture,
+    stamina: tickStamina(partner.stamina, partner.posture, dt),
+  } : null;
+
+  const spotted = !bustedBy && settings.detectionFails ? spottedBy(events) : null;
+  const busted: Busted | null = bustedBy
+    ? { by: bustedBy, reason: 'caught', timeLeft: BUSTED_DURATION }
+    : spotted && { by: spotted.by, reason: 'detected', timeLeft: BUSTED_DURATION };
+  if (busted) {
+    return {
+      state: { ...prev, playerPos, partner: partnerState, guards, alarmPanels: security.alarmPanels, busted },
+      events: [...(spotted ? [spotted.event] : []), { type: 'busted', by: busted.by }],
+    };
+  }
+
+  const next: GameState = {
+    ...prev,
+    playerPos,
+    partner: partnerState,
+    downed,
+    score,
+    money,
+    fragments,
+    lastPasswordFound,
+    guards,
+    cameras: security.cameras,
+    lasers: security.lasers,
+    vaults: security.vaults,
+    alarmPanels: security.alarmPanels,
+    alarmTimer: security.alarmTimer,
+    timeLeft: settings.timer ? Math.max(0, prev.timeLeft - dt) : prev.timeLeft,
+    posture: player.posture,
+    playerFacing: player.facing,
+    ...tickAbilities(prev, player.posture, dt),
+    ...tickNoises(prev, noises, dt),
+    stats: {
+      ...prev.stats,
+      billsCollected,
+      floorLoot,
+      loot,
+      lootBy,
+      floorLootBy,
+      nearMisses: prev.stats.nearMisses + newlyClose,
+      floorElapsed: prev.stats.floorElapsed + dt,
+      elapsed: prev.stats.elapsed + dt,
+      closeGuards,
+    },
+  };
+
+  // Door interaction
+  const distToDoor = (pos: Point) => Math.hypot(pos.x - prev.doorPos.x, pos.y - prev.doorPos.y);
+
+  // Only on stepping up to the door, so a closed terminal doesn't reopen at once.
+  const steppedUp = standing.some(r => distToDoor(r.pos) < 30 && distToDoor(robberPos(prev, r.index)) >= 30);
+  if (steppedUp && !prev.foundPassword) {
+    events.push({ type: 'terminalOpened' });
+    return { state: { ...next, showTerminal: true }, events };
+  }
+
+  // Nobody leaves without their partner.
+  if (prev.foundPassword && !downed && robbers.every(r => distToDoor(r.pos) < 20)) {
+    events.push({ type: 'floorCleared' });
+  }
+
+  return { state: next, events };
+};
+
+/** One full tick of a run: `step`, plus moving on to the next floor once it's cleared. */
+export const advance = (prev: GameState, input: StepInput, dt: number): StepResult => {
+  const result = step(prev, input, dt);
+  if (!result.events.some(e => e.type === 'floorCleared')) return result;
+  return { state: { ...advanceFloor(result.state), showShop: true }, events: result.events };
+};
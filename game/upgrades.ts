@@ -0,0 +1,87 @@
+import { GameState, StepResult, UpgradeId } from '../types';
+import { revealDigit } from './lock';
+
+// Permanent upgrades for the rest of a run, bought between floors with score.
+// Everything tunable lives in UPGRADES: each purchase adds `perLevel` to the
+// upgrade's effect, and `prices` holds the cost of each level in turn, so its
+// length is the upgrade's max level.
+
+export interface Upgrade {
+  label: string;
+  description: string;
+  perLevel: number;
+  prices: number[];
+}
+
+export const UPGRADES: Record<UpgradeId, Upgrade> = {
+  time: {
+    label: 'Extra Time',
+    description: '+10s on the clock every floor.',
+    perLevel: 10, // seconds
+    prices: [400, 900, 1600],
+  },
+  speed: {
+    label: 'Running Shoes',
+    description: 'Move 8% faster.',
+    perLevel: 0.08, // fraction of base speed
+    prices: [500, 1100, 2000],
+  },
+  pickup: {
+    label: 'Long Arms',
+    description: 'Grab cash and fragments from further away.',
+    perLevel: 8, // pixels
+    prices: [300, 700, 1200],
+  },
+  reveal: {
+    label: 'Inside Man',
+    description: 'Start every floor with a password fragment already found.',
+    perLevel: 1, // fragments
+    prices: [800, 2000],
+  },
+  life: {
+    label: 'Extra Life',
+    description: 'One more capture before the heist is over.',
+    perLevel: 1, // lives
+    prices: [1000, 2500, 5000],
+  },
+};
+
+export const UPGRADE_IDS = Object.keys(UPGRADES) as UpgradeId[];
+
+export const createUpgrades = (): Record<UpgradeId, number> => ({ time: 0, speed: 0, pickup: 0, reveal: 0, life: 0 });
+
+/** The total effect of `id` at its current level, in the units of its `perLevel`. */
+export const upgradeBonus = (state: GameState, id: UpgradeId) => state.upgrades[id] * UPGRADES[id].perLevel;
+
+/** Cost of the next level, or null once maxed out. */
+export const nextPrice = (state: GameState, id: UpgradeId): number | null => UPGRADES[id].prices[state.upgrades[id]] ?? null;
+
+/** Marks up to `count` fragments on the current floor as found, first ones first. */
+export const revealFragments = (state: GameState, count: number): GameState => {
+  let left = count;
+  let { lastPasswordFound } = state;
+  const fragments = state.fragments.map(f => {
+    if (f.collected || left <= 0) return f;
+    left--;
+    lastPasswordFound = revealDigit(lastPasswordFound, state.password, f.digitIndex);
+    return { ...f, collected: true };
+  });
+  return { ...state, fragments, lastPasswordFound };
+};
+
+/** Per-floor upgrade effects, applied when a floor starts. */
+export const applyFloorUpgrades = (state: GameState): GameState =>
+  revealFragments({ ...state, timeLeft: state.timeLeft + upgradeBonus(state, 'time') }, upgradeBonus(state, 'reveal'));
+
+export const buyUpgrade = (state: GameState, id: UpgradeId): StepResult => {
+  const price = nextPrice(state, id);
+  if (!state.showShop || price === null || state.score < price) return { state, events: [] };
+
+  const { perLevel } = UPGRADES[id];
+  let next: GameState = { ...state, score: state.score - price, upgrades: { ...state.upgrades, [id]: state.upgrades[id] + 1 } };
+  // The next floor is already built, so the new level applies to it straight away.
+  if (id === 'time') next = { ...next, timeLeft: next.timeLeft + perLevel };
+  if (id === 'reveal') next = revealFragments(next, perLevel);
+  if (id === 'life') next = { ...next, lives: next.lives + perLevel };
+  return { state: next, events: [{ type: 'upgradeBought', upgrade: id }] };
+};
@@ -0,0 +1,36 @@
+import { LevelDefinition } from '../types';
+import { validateLevel } from '../game/levels';
+import lobby from './01-lobby.json';
+import tellerHall from './02-teller-hall.json';
+
+// Authored campaigns, played in order before the procedural floors take over.
+// Add a floor by dropping its JSON file in this folder and listing it here.
+
+export const DEFAULT_CAMPAIGN = 'main';
+/** Holds the single level being tried out from the level editor. */
+export const PLAYTEST_CAMPAIGN = 'playtest';
+
+const campaigns = new Map<string, LevelDefinition[]>();
+
+/**
+ * Validates and registers a list of levels under `id`. Invalid levels are
+ * left out and their errors returned so the caller can report them.
+ */
+export const registerCampaign = (id: string, levels: unknown[]) => {
+  const valid: LevelDefinition[] = [];
+  const errors: string[] = [];
+  levels.forEach((data, i) => {
+    const { level, errors: levelErrors } = validateLevel(data);
+    if (level) valid.push(level);
+    errors.push(...levelErrors.map(e => `${id} level ${i + 1}: ${e}`));
+  });
+  campaigns.set(id, valid);
+  return errors;
+};
+
+/** The authored level for `floor` (1-based), if the campaign has one. */
+export const getCampaignLevel = (id: string, floor: number): LevelDefinition | null =>
+  campaigns.get(id)?.[floor - 1] ?? null;
+
+/** Problems with the levels bundled above; `npm run test:replay` fails on any. */
+export const BUNDLED_LEVEL_ERRORS = registerCampaign(DEFAULT_CAMPAIGN, [lobby, tellerHall]);
@@ -0,0 +1,47 @@
+import { GameState } from '../types';
+import { PLAYER_SIZE } from '../game/constants';
+import { advanceFloor, createInitialState } from '../game/generation';
+import { buildWalkGrid, floodFill, isReachableNear } from '../game/grid';
+
+// `npm run test:floors` — generates procedural floors from a few hundred seeds
+// and checks a robber can get from the entrance to the door, every bill and
+// every code fragment on each. A generator stuck retrying would hang it rather
+// than finish. Exits non-zero on any failed check.
+
+const SEEDS = 300;
+const FLOORS = 3; // deeper floors are bigger, with more rooms and guards
+const PICKUP_RADIUS = 19; // as close as the generator promises a pickup can be reached
+
+type Check = { name: string; ok: boolean; detail?: string };
+const checks: Check[] = [];
+const check = (name: string, ok: boolean, detail?: string) => checks.push({ name, ok, detail });
+
+const unreachable = (state: GameState) => {
+  const grid = buildWalkGrid(state.walls, PLAYER_SIZE, state.world);
+  const reached = floodFill(grid, state.spawnPos);
+  const missing: string[] = [];
+  if (!isReachableNear(grid, reached, state.doorPos, 0)) missing.push('door');
+  state.money.forEach(m => !isReachableNear(grid, reached, m.pos, PICKUP_RADIUS) && missing.push(m.id));
+  state.fragments.forEach(f => !isReachableNear(grid, reached, f.pos, PICKUP_RADIUS) && missing.push(f.id));
+  return missing;
+};
+
+const failures: string[][] = Array.from({ length: FLOORS }, () => []);
+for (let i = 0; i < SEEDS; i++) {
+  const seed = `FLOOR-CHECK-${i}`;
+  // No campaign, so even the first floor is generated.
+  let state = createInitialState(seed, '');
+  for (let floor = 1; floor <= FLOORS; floor++) {
+    const missing = unreachable(state);
+    if (missing.length > 0) failures[floor - 1].push(`${seed}: ${missing.join(', ')}`);
+    state = advanceFloor(state);
+  }
+}
+failures.forEach((failed, i) => {
+  check(`floor ${i + 1}: everything is reachable on all ${SEEDS} seeds`, failed.length === 0, failed.slice(0, 3).join('; '));
+});
+
+checks.forEach(c => console.log(`${c.ok ? 'PASS' : 'FAIL'} ${c.name}${c.detail ? ` (${c.detail})` : ''}`));
+const failed = checks.filter(c => !c.ok).length;
+console.log(failed ? `${failed} of ${checks.length} checks failed` : `All ${checks.length} checks passed`);
+process.exit(failed ? 1 : 0);
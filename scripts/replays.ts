@@ -0,0 +1,112 @@
+import { GameConfig, GameState, RobberInput, StepInput } from '../types';
+import { PLAYER_SIZE, TICK_RATE } from '../game/constants';
+import { createInitialState } from '../game/generation';
+import { DEFAULT_CONFIG } from '../game/modes';
+import { createRecorder, verifyReplay } from '../game/replay';
+import { deserializeRun, serializeRun } from '../game/save';
+import { advance } from '../game/simulation';
+import { BUNDLED_LEVEL_ERRORS, DEFAULT_CAMPAIGN } from '../levels';
+
+// `npm run test:replay` — records runs the way the Game screen does, fresh and
+// resumed from a save, plus a few set-up floors with rules worth pinning
+// down, and checks each replay lands on the recorded final state. Exits
+// non-zero on any failed check.
+
+const TICKS = 240;
+
+type Check = { name: string; ok: boolean; detail?: string };
+const checks: Check[] = [];
+const check = (name: string, ok: boolean, detail?: string) => checks.push({ name, ok, detail });
+
+// An invalid bundled level is left out of the campaign, which nothing else would notice.
+check('the bundled levels are valid', BUNDLED_LEVEL_ERRORS.length === 0, BUNDLED_LEVEL_ERRORS.join('; '));
+
+// A robber walking a lazy zigzag, sprinting now and then.
+const inputAt = (tick: number): RobberInput => ({
+  move: { x: Math.floor(tick / 40) % 2 ? -1 : 1, y: tick % 80 < 40 ? 0.5 : 0 },
+  posture: tick % 90 < 20 ? 'sprint' : 'walk',
+});
+
+// The Game loop: nothing is stepped or recorded while the run holds still.
+const play = (from: GameState, ticks: number, record: (input: StepInput) => void) => {
+  let state = from;
+  for (let tick = 0; tick < ticks; tick++) {
+    if (state.isPaused || state.isGameOver || state.showTerminal || state.showShop) break;
+    const input: StepInput = state.partner ? { ...inputAt(tick), partner: inputAt(tick + 20) } : inputAt(tick);
+    record(input);
+    state = advance(state, input, 1 / TICK_RATE).state;
+  }
+  return state;
+};
+
+[DEFAULT_CONFIG, { ...DEFAULT_CONFIG, coop: true }].forEach(config => {
+  const label = config.coop ? 'co-op' : 'solo';
+  const initial = createInitialState('REPLAY-CHECK', DEFAULT_CAMPAIGN, config);
+
+  const fresh = createRecorder(initial);
+  const saved = play(initial, TICKS, fresh.tick);
+  check(`${label}: a fresh run's replay verifies`, verifyReplay(fresh.finish(saved)));
+
+  // Resuming loads the save paused; the player un-pauses, which isn't recorded.
+  const loaded = deserializeRun(serializeRun(saved));
+  if (!loaded) return check(`${label}: the save loads`, false);
+  const resumed = createRecorder(loaded, true);
+  const final = play({ ...loaded, isPaused: false }, TICKS, resumed.tick);
+  check(`${label}: the resumed run moved`, final.playerPos.x !== saved.playerPos.x || final.playerPos.y !== saved.playerPos.y);
+  check(`${label}: a resumed run's replay verifies`, verifyReplay(resumed.finish(final)));
+});
+
+// Ghost mode: a laser live across the floor entrance, or a camera staring at
+// it, spots a robber standing there. Each sighting costs a life like a
+// capture would, and the last one ends the run as spotted.
+const GHOST: GameConfig = { ...DEFAULT_CONFIG, mode: 'ghost' };
+const STILL: RobberInput = { move: { x: 0, y: 0 }, posture: 'walk' };
+
+const ghostFloor = createInitialState('GHOST-CHECK', DEFAULT_CAMPAIGN, GHOST);
+const entrance = ghostFloor.spawnPos;
+const traps: [string, Partial<GameState>][] = [
+  ['laser', {
+    lasers: [{
+      id: 'laser-check',
+      rect: { x: entrance.x - 4, y: entrance.y - 4, w: PLAYER_SIZE + 8, h: PLAYER_SIZE + 8 },
+      period: 1,
+      onTime: 1,
+      phase: 0,
+      disabledTimer: 0,
+    }],
+  }],
+  ['camera', {
+    cameras: [{
+      id: 'camera-check',
+      pos: { x: entrance.x + PLAYER_SIZE + 40, y: entrance.y + PLAYER_SIZE / 2 },
+      baseAngle: Math.PI,
+      sweep: 0,
+      sweepSpeed: 0,
+      phase: 0,
+      suspicion: 0,
+      disabledTimer: 0,
+    }],
+  }],
+];
+
+traps.forEach(([trap, security]) => {
+  const start: GameState = { ...ghostFloor, guards: [], ...security };
+  const recorder = createRecorder(start, true);
+  const busts: string[] = [];
+  let state = start;
+  for (let tick = 0; tick < TICK_RATE * 30 && !state.isGameOver; tick++) {
+    recorder.tick(STILL);
+    const result = advance(state, STILL, 1 / TICK_RATE);
+    result.events.forEach(e => e.type === 'busted' && busts.push(e.by));
+    state = result.state;
+  }
+  const id = `${trap}-check`;
+  check(`ghost: being spotted by a ${trap} busts the robber`, busts.length === start.lives && busts.every(by => by === id), busts.join(', '));
+  check(`ghost: the ${trap} spotting them on their last life ends the run`, state.isGameOver && state.gameOverReason === 'detected' && state.lives === 0);
+  check(`ghost: the ${trap} run's replay verifies`, verifyReplay(recorder.finish(state)));
+});
+
+checks.forEach(c => console.log(`${c.ok ? 'PASS' : 'FAIL'} ${c.name}${c.detail ? ` (${c.detail})` : ''}`));
+const failed = checks.filter(c => !c.ok).length;
+console.log(failed ? `${failed} of ${checks.length} checks failed` : `All ${checks.length} checks passed`);
+process.exit(failed ? 1 : 0);
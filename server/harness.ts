@@ -0,0 +1,145 @@
+import WebSocket from 'ws';
+import { RobberInput } from '../types';
+import { PLAYER_SIZE, TICK_RATE } from '../game/constants';
+import { DEFAULT_CONFIG } from '../game/modes';
+import { createNetClient, NetClient, socketConnection } from '../game/net';
+import { startServer } from './server';
+
+// `npm run test:net` — plays a short online co-op run end to end: a server on
+// a free localhost port and two headless clients, a host and a guest, that
+// walk their robbers about and then compare notes. Exits non-zero on any
+// failed check.
+
+const WALK_TICKS = 180;
+const TIMEOUT = 5000; // ms to wait for anything the server should send
+
+type Check = { name: string; ok: boolean; detail?: string };
+const checks: Check[] = [];
+const check = (name: string, ok: boolean, detail?: string) => checks.push({ name, ok, detail });
+
+const waitFor = (what: string, condition: () => boolean) =>
+  new Promise<void>((resolve, reject) => {
+    const started = Date.now();
+    const timer = setInterval(() => {
+      if (condition()) {
+        clearInterval(timer);
+        resolve();
+      } else if (Date.now() - started > TIMEOUT) {
+        clearInterval(timer);
+        reject(new Error(`timed out waiting for ${what}`));
+      }
+    }, 10);
+  });
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Each robber walks a square, a third of the walk per side, turning the other way to its partner.
+const SIDES = [{ x: 1, y: 0 }, { x: 0, y: 1 }, { x: -1, y: 0 }];
+const inputAt = (tick: number, turn: 1 | -1): RobberInput => {
+  const side = SIDES[Math.min(SIDES.length - 1, Math.floor((tick * SIDES.length) / WALK_TICKS))];
+  return { move: { x: side.x * turn, y: side.y }, posture: tick % 60 < 20 ? 'sprint' : 'walk' };
+};
+
+const ownPos = (client: NetClient) => {
+  const state = client.getState()!;
+  return client.getRobber() === 1 ? state.partner!.pos : state.playerPos;
+};
+
+const run = async () => {
+  const server = await startServer(0);
+  const url = `ws://localhost:${server.port}`;
+  const connect = () => createNetClient(socketConnection(new WebSocket(url)));
+  // The host's connection is kept so the harness can also send what no real client would.
+  const hostConn = socketConnection(new WebSocket(url));
+  const host = createNetClient(hostConn);
+  const guest = connect();
+  const stranger = connect();
+
+  try {
+    host.host(DEFAULT_CONFIG);
+    await waitFor('a room code', () => host.getStatus() === 'waiting');
+    check('host gets a room code', /^[A-Z]{4}$/.test(host.getCode()), host.getCode());
+
+    stranger.join('ZZZZ' === host.getCode() ? 'YYYY' : 'ZZZZ');
+    await waitFor('an unknown room to be refused', () => stranger.getError() !== '');
+    check('unknown room codes are refused', stranger.getStatus() === 'idle', stranger.getError());
+
+    guest.join(host.getCode().toLowerCase());
+    await waitFor('the run to start', () => host.getStatus() === 'playing' && guest.getStatus() === 'playing');
+    const start = { host: { ...ownPos(host) }, guest: { ...ownPos(guest) } };
+    check('robbers are seated 0 and 1', host.getRobber() === 0 && guest.getRobber() === 1);
+    check('both play the same co-op run', host.getState()!.seed === guest.getState()!.seed && !!host.getState()!.partner);
+
+    stranger.join(host.getCode());
+    await waitFor('a full room to be refused', () => stranger.getError().includes('full'));
+    check('a third player is refused', stranger.getStatus() === 'idle', stranger.getError());
+
+    // Walk both robbers about at the game's own tick rate.
+    let tick = 0;
+    let worst = 0;
+    await new Promise<void>(resolve => {
+      const timer = setInterval(() => {
+        host.tick(inputAt(tick, 1));
+        guest.tick(inputAt(tick, -1));
+        worst = Math.max(worst, host.getCorrection(), guest.getCorrection());
+        if (++tick >= WALK_TICKS) {
+          clearInterval(timer);
+          resolve();
+        }
+      }, 1000 / TICK_RATE);
+    });
+    await waitFor('every input to be acknowledged', () => host.getPendingCount() === 0 && guest.getPendingCount() === 0);
+    await sleep(200); // a few more snapshots, so both have the same one
+
+    const moved = (a: { x: number; y: number }, b: { x: number; y: number }) => Math.hypot(a.x - b.x, a.y - b.y);
+    check('host robber moved', moved(ownPos(host), start.host) > PLAYER_SIZE);
+    check('guest robber moved', moved(ownPos(guest), start.guest) > PLAYER_SIZE);
+    check('prediction stays within a body width of the server', worst < PLAYER_SIZE, `worst correction ${worst.toFixed(1)}px`);
+    const a = host.getState()!;
+    const b = guest.getState()!;
+    check(
+      'both clients agree on the floor',
+      moved(a.playerPos, b.playerPos) === 0 && moved(a.partner!.pos, b.partner!.pos) === 0 && a.score === b.score && a.walls.length === b.walls.length,
+    );
+    const events = [...host.takeEvents(), ...guest.takeEvents()];
+    check('server events reach the clients', events.every(e => typeof e.type === 'string'), `${events.length} events`);
+
+    // Sent raw, as no real client would: an unknown id that reached the shop
+    // would throw inside the room's tick and stop the whole server.
+    const tickBefore = guest.getServerTick();
+    const malformed = [
+      '{"type":"buyGadget","gadget":"nope"}',
+      '{"type":"buyUpgrade","upgrade":"nope"}',
+      '{"type":"useAbility","ability":"nope"}',
+      '{"type":"submitCode","code":1234}',
+      '{"type":"teleport"}',
+      'null',
+    ];
+    malformed.forEach(command => hostConn.send(`{"type":"command","seq":1000000,"command":${command}}`));
+    hostConn.send('{"type":"input","seq":1000001,"input":{"move":{"x":"1e9","y":0},"posture":"walk"}}');
+    hostConn.send('not json');
+    await sleep(300);
+    check(
+      'malformed messages are dropped and the room keeps ticking',
+      host.getStatus() === 'playing' && guest.getServerTick() > tickBefore,
+      `tick ${tickBefore} → ${guest.getServerTick()}`,
+    );
+
+    guest.leave();
+    await waitFor('the host to hear the guest left', () => host.getStatus() === 'closed');
+    check('host is told when the guest leaves', host.getError().includes('left'), host.getError());
+  } catch (err) {
+    check('harness ran to the end', false, (err as Error).message);
+  } finally {
+    host.leave();
+    stranger.leave();
+    await server.close();
+  }
+
+  checks.forEach(c => console.log(`${c.ok ? 'PASS' : 'FAIL'} ${c.name}${c.detail ? ` (${c.detail})` : ''}`));
+  const failed = checks.filter(c => !c.ok).length;
+  console.log(failed ? `${failed} of ${checks.length} checks failed` : `All ${checks.length} checks passed`);
+  process.exit(failed ? 1 : 0);
+};
+
+run();
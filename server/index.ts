@@ -0,0 +1,14 @@
+import { NET_PORT } from '../game/net';
+import { startServer } from './server';
+
+// `npm run server` — hosts online co-op rooms. PORT overrides the default.
+
+const port = Number(process.env.PORT ?? NET_PORT);
+
+startServer(port).then(
+  server => console.log(`Heist server listening on ws://localhost:${server.port}`),
+  err => {
+    console.error(`Couldn't start the server: ${err.message}`);
+    process.exit(1);
+  },
+);
@@ -0,0 +1,29 @@
+import { AddressInfo } from 'net';
+import { WebSocketServer } from 'ws';
+import { createLobby, startLobbyClock } from '../game/lobby';
+import { socketConnection } from '../game/net';
+
+// The online co-op server: a lobby of rooms behind a WebSocket. Everything
+// about the game itself lives in game/lobby.ts, shared with the offline mode.
+
+/** Listens on `port` (0 picks a free one) and resolves once it's ready. */
+export const startServer = (port: number) =>
+  new Promise<{ port: number; close: () => Promise<void> }>((resolve, reject) => {
+    const lobby = createLobby();
+    const wss = new WebSocketServer({ port });
+    let stopClock = () => {};
+
+    wss.on('connection', socket => lobby.connect(socketConnection(socket)));
+    wss.once('error', reject);
+    wss.once('listening', () => {
+      stopClock = startLobbyClock(lobby);
+      resolve({
+        port: (wss.address() as AddressInfo).port,
+        close: () => new Promise(done => {
+          stopClock();
+          wss.clients.forEach(socket => socket.terminate());
+          wss.close(() => done());
+        }),
+      });
+    });
+  });
@@ -11,6 +11,11 @@ export interface Money {
   collected: boolean;
 }
 
+export interface Size {
+  width: number;
+  height: number;
+}
+
 export interface Wall {
   x: number;
   y: number;
@@ -18,29 +23,233 @@ export interface Wall {
   h: number;
 }
 
+export type GuardMode = 'patrol' | 'suspicious' | 'alert' | 'search' | 'return';
+
 export interface Guard {
   id: string;
   pos: Point;
   path: Point[];
   currentPathIndex: number;
   speed: number;
+  facing: number; // radians
+  mode: GuardMode;
+  suspicion: number; // 0..1, reaching 1 raises the alert
+  lastKnownPos: Point | null;
+  modeTimer: number; // seconds left in the current search
+  route: Point[]; // A* waypoints towards routeGoal
+  routeGoal: Point | null;
+  stunTimer: number; // seconds left frozen by smoke or an EMP
+}
+
+export type Posture = 'walk' | 'sprint' | 'crouch';
+export type GadgetId = 'smoke' | 'emp';
+export type AbilityId = 'distraction' | GadgetId;
+
+// Something lingering on the floor after an ability, e.g. a smoke cloud.
+export interface AreaEffect {
+  kind: AbilityId;
+  pos: Point;
+  radius: number;
+  timeLeft: number; // seconds
+  duration: number;
+}
+
+export type NoiseSource = 'sprint' | 'pickup' | 'wrongCode' | 'bump' | 'distraction';
+
+// A sound the robber made. Guards within `radius` hear it on the tick it is
+// made (walls in between muffle it); it stays around a little for the HUD.
+export interface Noise {
+  source: NoiseSource;
+  pos: Point;
+  radius: number;
+  age: number; // seconds; exactly 0 until a tick has let the guards hear it
+  robber?: RobberIndex; // who made it, for the ones that come from moving about
+}
+
+// Wall-mounted camera sweeping back and forth around `baseAngle`. Seeing the
+// robber long enough raises the alarm.
+export interface SecurityCamera {
+  id: string;
+  pos: Point;
+  baseAngle: number; // radians
+  sweep: number; // radians either side of baseAngle
+  sweepSpeed: number; // radians of phase per second
+  phase: number;
+  suspicion: number; // 0..1
+  disabledTimer: number; // seconds left knocked out by an EMP
+}
+
+// Beams across a gap that switch on and off on a fixed cycle.
+export interface LaserGrid {
+  id: string;
+  rect: Wall;
+  period: number; // seconds per on/off cycle
+  onTime: number; // seconds of each cycle the beams are live
+  phase: number; // seconds
+  disabledTimer: number;
+}
+
+// Solid strongbox; standing next to it long enough cracks it open.
+export interface Vault {
+  id: string;
+  rect: Wall; // also in the floor's walls, so it blocks movement and sight
+  value: number;
+  progress: number; // seconds of hacking so far
+  opened: boolean;
+}
+
+// Calls in a reinforcement when the alarm goes off, unless its wires are cut first.
+export interface AlarmPanel {
+  id: string;
+  pos: Point;
+  status: 'armed' | 'triggered' | 'cut';
+}
+
+export type LockType = 'code' | 'scrambled' | 'checksum';
+
+export type FragmentKind = 'keycard' | 'note' | 'computer';
+
+// A pickup that reveals one digit of the floor's password.
+export interface PasswordFragment {
+  id: string;
+  pos: Point;
+  kind: FragmentKind;
+  digitIndex: number;
+  collected: boolean;
+}
+
+// Hand-authored floor, as stored in the level JSON files.
+export interface LevelDefinition {
+  name: string;
+  world?: Size; // defaults to the canvas size
+  walls: Wall[];
+  spawn: Point;
+  door: Point;
+  money: { pos: Point; value: number }[];
+  guards: { path: Point[]; speed: number }[];
+  lamps?: Point[]; // ceiling lights; the floor is dark without them
+  timeLimit: number; // seconds
+  lock: {
+    type: LockType;
+    /** Fixed code; generated from the run seed when omitted. */
+    password?: string;
+    /** Fixed fragment spots; placed by the generator when omitted. */
+    fragments?: { pos: Point; kind: FragmentKind; digitIndex: number }[];
+  };
+}
+
+export interface RunStats {
+  billsCollected: number;
+  billsAvailable: number;
+  nearMisses: number;
+  wrongCodes: number;
+  floorTimes: number[]; // seconds spent on each cleared floor
+  floorElapsed: number;
+  floorLoot: number; // cash picked up on the current floor
+  loot: number; // cash picked up this run; what the shop takes doesn't come off it
+  elapsed: number;
+  closeGuards: string[]; // guards currently inside near-miss range
+  lootBy: number[]; // cash each robber has picked up this run, by RobberIndex
+  floorLootBy: number[]; // the same for the current floor
+}
+
+// What the intermission screen shows about the floor just cleared.
+export interface FloorSummary {
+  floor: number;
+  loot: number;
+  bills: number;
+  billsAvailable: number;
+  time: number; // seconds
+  timeLeft: number;
+}
+
+export type GameOverReason = 'caught' | 'detected' | 'timeUp';
+
+// A robber being taken away: `by` is the guard who caught them or, in ghost
+// mode, the guard, camera or laser that spotted them.
+export interface Busted {
+  by: string;
+  reason: Exclude<GameOverReason, 'timeUp'>;
+  timeLeft: number;
+}
+
+export type UpgradeId = 'time' | 'speed' | 'pickup' | 'reveal' | 'life';
+
+export type Difficulty = 'easy' | 'normal' | 'hard';
+export type GameMode = 'classic' | 'ghost' | 'timeAttack' | 'endless' | 'zen';
+
+export interface GameConfig {
+  difficulty: Difficulty;
+  mode: GameMode;
+  coop?: boolean; // a second robber on the same screen
+}
+
+// 0 is the robber whose state sits at the top of GameState, 1 their co-op partner.
+export type RobberIndex = 0 | 1;
+
+// The second robber in a co-op run. Score, timer, gadgets and cooldowns are
+// shared, so only what's needed to move them around lives here.
+export interface Partner {
+  pos: Point;
+  facing: number; // radians
+  posture: Posture;
+  stamina: number;
+}
+
+// A robber tackled while their partner was still free. They lie where they
+// fell until revived, or until the guards come back for them.
+export interface Downed {
+  robber: RobberIndex;
+  guardId: string;
+  timeLeft: number; // seconds until it counts as busted
+  revive: number; // seconds the partner has spent reviving them
 }
 
 export interface GameState {
+  seed: string;
+  config: GameConfig;
+  campaign: string; // id of the authored floors played before procedural ones
   playerPos: Point;
   currentFloor: number;
   score: number;
   money: Money[];
+  world: Size; // floor bounds; the canvas is a viewport onto them
   walls: Wall[];
   guards: Guard[];
   password: string;
+  lockType: LockType;
+  fragments: PasswordFragment[];
   foundPassword: boolean;
   doorPos: Point;
+  spawnPos: Point;
   isPaused: boolean;
   isGameOver: boolean;
   showTerminal: boolean;
-  lastPasswordFound: string;
+  lastPasswordFound: string; // revealed digits so far, '_' for unknown slots
   timeLeft: number;
+  stats: RunStats;
+  posture: Posture;
+  playerFacing: number; // radians, the last direction the robber moved in
+  stamina: number; // 0..1, spent by sprinting
+  cooldowns: Record<AbilityId, number>; // seconds until each can be used again
+  gadgets: Record<GadgetId, number>; // how many of each the robber carries
+  effects: AreaEffect[];
+  noises: Noise[];
+  noiseLevel: number; // 0..1, how loud the robber has been lately
+  showShop: boolean; // between floors, before the next one starts
+  lastFloor: FloorSummary | null;
+  upgrades: Record<UpgradeId, number>; // levels bought this run
+  lives: number; // including the current one; the run ends when the last is lost
+  busted: Busted | null; // capture sequence in progress
+  partner: Partner | null; // the second robber, in co-op runs
+  downed: Downed | null;
+  cameras: SecurityCamera[];
+  lasers: LaserGrid[];
+  vaults: Vault[];
+  alarmPanels: AlarmPanel[];
+  alarmTimer: number; // seconds the alarm keeps ringing; it can't be raised again until then
+  lamps: Point[]; // ceiling lights, only drawn; guards see just as well in the dark
+  gameOverReason: GameOverReason | null;
 }
 
 export enum Direction {
@@ -50,3 +259,41 @@ export enum Direction {
   RIGHT = 'RIGHT',
   NONE = 'NONE'
 }
+
+export interface RobberInput {
+  move: Point; // normalized, length in [0, 1]
+  posture: Posture;
+}
+
+export interface StepInput extends RobberInput {
+  partner?: RobberInput; // ignored unless the run is co-op
+}
+
+export type GameEvent =
+  | { type: 'moneyCollected'; id: string; value: number }
+  | { type: 'caught'; guardId: string }
+  | { type: 'detected'; by: string } // ghost mode: spotted with no lives left
+  | { type: 'guardSuspicious'; guardId: string }
+  | { type: 'guardAlerted'; guardId: string }
+  | { type: 'timeUp' }
+  | { type: 'fragmentCollected'; id: string; digit: string }
+  | { type: 'terminalOpened' }
+  | { type: 'codeAccepted' }
+  | { type: 'codeRejected'; penalty: number }
+  | { type: 'floorCleared' }
+  | { type: 'abilityUsed'; ability: AbilityId }
+  | { type: 'gadgetBought'; gadget: GadgetId }
+  | { type: 'upgradeBought'; upgrade: UpgradeId }
+  | { type: 'busted'; by: string } // caught or spotted, before losing the life
+  | { type: 'respawned'; livesLeft: number }
+  | { type: 'robberDowned'; robber: RobberIndex; guardId: string }
+  | { type: 'robberRevived'; robber: RobberIndex }
+  | { type: 'alarmRaised'; source: string } // id of the camera or laser that tripped it
+  | { type: 'reinforcementsCalled'; panelId: string; guardId: string }
+  | { type: 'panelCut'; panelId: string }
+  | { type: 'vaultOpened'; id: string; value: number };
+
+export interface StepResult {
+  state: GameState;
+  events: GameEvent[];
+}